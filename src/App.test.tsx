@@ -0,0 +1,285 @@
+import { describe, expect, it, vi } from "vitest"
+import { fireEvent, render, screen, waitFor, within } from "@testing-library/react"
+import userEvent from "@testing-library/user-event"
+import App from "./App"
+import { jsonResponse, mockBackend, simulateResponse, type SimulateBody } from "./test/mockFetch"
+import { diedGame } from "./test/fixtures"
+import type { Preferences } from "./preferences/preferencesStore"
+import type { TableResult } from "./types"
+import { buildPermalink } from "./url/permalink"
+
+// Renders the app and waits until the backend answers its first ping
+async function renderLiveApp() {
+  render(<App />);
+  await screen.findByText("Server Status: Live", { exact: false });
+}
+
+// The board is 3x3 in every test, matching the fixture replay
+async function runGame() {
+  await userEvent.selectOptions(screen.getByLabelText("Grid Size:", { selector: "#grid-size" }), "5");
+  await userEvent.click(screen.getByRole("button", { name: "Run new game" }));
+}
+
+const moves = () => Number(screen.getByText(/^Moves: \d+$/).textContent!.replace("Moves: ", ""));
+
+describe("App replay controls", () => {
+  it("loads a simulated game, pauses and steps through it", async () => {
+    const backend = mockBackend({ simulate: () => simulateResponse(diedGame) });
+    await renderLiveApp();
+    await runGame();
+
+    await userEvent.click(await screen.findByRole("button", { name: "Pause" }));
+    const paused = moves();
+    await userEvent.click(screen.getByRole("button", { name: "Forward" }));
+    expect(moves()).toBe(paused + 1);
+    await userEvent.click(screen.getByRole("button", { name: "Back" }));
+    expect(moves()).toBe(paused);
+
+    const request = backend.mock.calls.find(([url]) => String(url).endsWith("/simulate"))!;
+    const body = JSON.parse(String(request[1]?.body)) as SimulateBody;
+    expect(body).toMatchObject({ agent: "a*", eps: "N/A", grid_size: 3 });
+    expect(Number(body.seed)).toBeLessThan(1000); // a blank seed input gets a random seed
+  });
+
+  it("does not step before the first move or past the last one", async () => {
+    mockBackend({ simulate: () => simulateResponse(diedGame) });
+    await renderLiveApp();
+    await runGame();
+    await userEvent.click(await screen.findByRole("button", { name: "Pause" }));
+
+    fireEvent.keyDown(window, { key: "Home" });
+    await userEvent.click(screen.getByRole("button", { name: "Back" }));
+    expect(moves()).toBe(0);
+    fireEvent.keyDown(window, { key: "End" });
+    await userEvent.click(screen.getByRole("button", { name: "Forward" }));
+    expect(moves()).toBe(diedGame.length - 1);
+  });
+
+  it("plays to the end, then restarts from the first move", async () => {
+    mockBackend({ simulate: () => simulateResponse(diedGame) });
+    await renderLiveApp();
+    await runGame();
+    await screen.findByRole("button", { name: "Pause" });
+    for (let i = 0; i < 4; i++) fireEvent.keyDown(window, { key: "ArrowUp" }); // 16x
+
+    const restart = await screen.findByRole("button", { name: "Restart" }, { timeout: 3000 });
+    expect(moves()).toBe(diedGame.length - 1);
+    await userEvent.click(restart);
+    expect(moves()).toBe(0);
+    expect(screen.queryByRole("button", { name: "Restart" })).not.toBeInTheDocument();
+  });
+
+  it("adds the run to the history", async () => {
+    mockBackend({ simulate: () => simulateResponse(diedGame) });
+    await renderLiveApp();
+    expect(screen.getByText("No runs yet")).toBeInTheDocument();
+    await runGame();
+    await screen.findByRole("button", { name: "Pause" });
+    const row = screen.getByRole("button", { name: "Re-run" }).closest("tr")!;
+    expect(within(row).getByText("A*")).toBeInTheDocument();
+    expect(within(row).getByText("3x3")).toBeInTheDocument();
+    expect(within(row).getByText("Lost")).toBeInTheDocument();
+    expect(screen.getByText("1 saved, up to 200")).toBeInTheDocument();
+  });
+
+  it("tells the user when the saved history could not be read", async () => {
+    localStorage.setItem("ai-snake-agents:history", "{not json");
+    mockBackend({});
+    await renderLiveApp();
+    expect(screen.getByText("Saved history was unreadable and will be replaced by new runs")).toBeInTheDocument();
+    expect(screen.getByText("No runs yet")).toBeInTheDocument();
+  });
+
+  it("re-runs a local agent against the backend fruit it played", async () => {
+    mockBackend({ simulate: () => simulateResponse(diedGame) });
+    await renderLiveApp();
+    await userEvent.click(screen.getByRole("button", { name: "Add slot" }));
+    await userEvent.selectOptions(screen.getAllByLabelText("Select Agent:")[1], "local:a*");
+    await userEvent.click(screen.getByLabelText("Same seed for every slot")); // fruit is only matched on the same seed
+    await runGame();
+    await screen.findByRole("button", { name: "Pause" });
+
+    const saved = JSON.parse(localStorage.getItem("ai-snake-agents:history")!) as { results: TableResult[] };
+    expect(saved.results[0]).toMatchObject({ agentCode: "local:a*", meta: { response: { matchedFruit: true } } });
+    expect(saved.results[0].seed).toBe(saved.results[1].seed);
+
+    const local = screen.getAllByRole("button", { name: "Re-run" })[0]; // the last slot is added on top
+    await userEvent.click(local);
+    expect(await screen.findByText("Re-run reproduced the recorded game")).toBeInTheDocument();
+  });
+});
+
+describe("App shared links", () => {
+  it("runs the linked game once the server is up and opens it at the linked step", async () => {
+    const backend = mockBackend({ simulate: () => simulateResponse(diedGame) });
+    window.history.replaceState(null, "", `/${buildPermalink({ gridSize: 3, grids: [{ agent: "a*", eps: "N/A", seed: "4" }], step: 3 })}`);
+    await renderLiveApp();
+    await waitFor(() => expect(moves()).toBe(3));
+    expect(backend.mock.calls.filter(([url]) => String(url).endsWith("/simulate"))).toHaveLength(1);
+    window.history.replaceState(null, "", "/");
+  });
+});
+
+describe("App copy link", () => {
+  it("shows the link to copy by hand when the clipboard is refused", async () => {
+    const writeText = vi.fn().mockRejectedValue(new DOMException("Denied", "NotAllowedError"));
+    Object.defineProperty(navigator, "clipboard", { value: { writeText }, configurable: true });
+    mockBackend({ simulate: () => simulateResponse(diedGame) });
+    await renderLiveApp();
+    await runGame();
+    fireEvent.click(await screen.findByRole("button", { name: "Copy link" }));
+
+    expect(await screen.findByRole("button", { name: "Copy failed" })).toBeInTheDocument();
+    expect(screen.getByLabelText("Link to copy")).toHaveValue(window.location.href);
+    expect(writeText).toHaveBeenCalledWith(window.location.href);
+  });
+});
+
+describe("App game loading errors", () => {
+  it("reports a failed request and retries it", async () => {
+    let fail = true;
+    mockBackend({
+      simulate: () => (fail ? new Response("", { status: 500, statusText: "Internal Server Error" }) : simulateResponse(diedGame))
+    });
+    await renderLiveApp();
+    await runGame();
+
+    const alert = await screen.findByRole("alert");
+    expect(alert).toHaveTextContent("Could not load the game: Backend responded with 500 Internal Server Error");
+    expect(screen.getByText("No runs yet")).toBeInTheDocument();
+
+    fail = false;
+    await userEvent.click(within(alert).getByRole("button", { name: "Retry" }));
+    await screen.findByRole("button", { name: "Pause" });
+    expect(screen.queryByRole("alert")).not.toBeInTheDocument();
+  });
+
+  it("rejects malformed game states", async () => {
+    mockBackend({ simulate: () => jsonResponse({ states: [diedGame[0], { snake: "oops" }] }) });
+    await renderLiveApp();
+    await runGame();
+    expect(await screen.findByRole("alert")).toHaveTextContent("Malformed game state at step 1");
+    expect(moves()).toBe(0);
+  });
+
+  it("rejects a response without game states", async () => {
+    mockBackend({ simulate: () => jsonResponse({ states: [] }) });
+    await renderLiveApp();
+    await runGame();
+    expect(await screen.findByRole("alert")).toHaveTextContent("Response did not contain any game states");
+  });
+
+  it("reports an unreachable backend and checks its health again", async () => {
+    const backend = mockBackend({ simulate: () => Promise.reject(new TypeError("Failed to fetch")) });
+    await renderLiveApp();
+    const pings = () => backend.mock.calls.filter(([url]) => String(url).endsWith("/ping")).length;
+    const before = pings();
+    await runGame();
+    expect(await screen.findByRole("alert")).toHaveTextContent("Could not reach the backend: Failed to fetch");
+    await waitFor(() => expect(pings()).toBeGreaterThan(before));
+  });
+
+  it("can dismiss the error", async () => {
+    mockBackend({ simulate: () => new Response("", { status: 503 }) });
+    await renderLiveApp();
+    await runGame();
+    await userEvent.click(within(await screen.findByRole("alert")).getByRole("button", { name: "Dismiss" }));
+    expect(screen.queryByRole("alert")).not.toBeInTheDocument();
+  });
+});
+
+describe("App accessibility", () => {
+  it("switches the board to high contrast and remembers it", async () => {
+    mockBackend({});
+    await renderLiveApp();
+    const toggle = screen.getByRole("button", { name: "High contrast" });
+    expect(toggle).toHaveAttribute("aria-pressed", "false");
+    await userEvent.click(toggle);
+    expect(toggle).toHaveAttribute("aria-pressed", "true");
+    expect(JSON.parse(localStorage.getItem("ai-snake-agents:preferences")!)).toMatchObject({ highContrast: true });
+  });
+
+  it("announces every board when stepping through a paused replay", async () => {
+    mockBackend({ simulate: () => simulateResponse(diedGame) });
+    await renderLiveApp();
+    await runGame();
+    await userEvent.click(await screen.findByRole("button", { name: "Pause" }));
+    fireEvent.keyDown(window, { key: "Home" });
+    await userEvent.click(screen.getByRole("button", { name: "Forward" }));
+    expect(screen.getByText("Move 1. Slot 1: ate fruit, length 2.")).toBeInTheDocument();
+  });
+
+  it("leaves Space to a focused button instead of toggling playback", async () => {
+    mockBackend({ simulate: () => simulateResponse(diedGame) });
+    await renderLiveApp();
+    await runGame();
+    const pause = await screen.findByRole("button", { name: "Pause" });
+    await userEvent.click(pause);
+    const forward = screen.getByRole("button", { name: "Forward" });
+    forward.focus();
+    expect(fireEvent.keyDown(forward, { key: " " })).toBe(true); // not prevented
+    expect(screen.queryByRole("button", { name: "Pause" })).not.toBeInTheDocument();
+    fireEvent.keyDown(document.body, { key: " " });
+    expect(screen.getByRole("button", { name: "Pause" })).toBeInTheDocument();
+  });
+
+  it("moves between history rows with the keyboard and deletes the focused one", async () => {
+    mockBackend({ simulate: () => simulateResponse(diedGame) });
+    await renderLiveApp();
+    await runGame();
+    await userEvent.click(await screen.findByRole("button", { name: "Pause" }));
+    await runGame();
+    await userEvent.click(await screen.findByRole("button", { name: "Pause" }));
+
+    const rows = () => screen.getAllByRole("button", { name: "Re-run" }).map((b) => b.closest("tr")!);
+    const [first, second] = rows();
+    expect(first).toHaveAttribute("tabindex", "0");
+    expect(second).toHaveAttribute("tabindex", "-1");
+    first.focus();
+    fireEvent.keyDown(first, { key: "ArrowDown" });
+    expect(second).toHaveFocus();
+    fireEvent.keyDown(second, { key: "Delete" });
+    expect(rows()).toEqual([first]);
+    expect(first).toHaveFocus();
+  });
+});
+
+describe("App display settings", () => {
+  it("saves the board theme, overlays and per-slot snake colors", async () => {
+    mockBackend({});
+    await renderLiveApp();
+    await userEvent.selectOptions(screen.getByLabelText("Board theme:"), "dark");
+    await userEvent.click(screen.getByRole("checkbox", { name: "Heatmap" }));
+    fireEvent.input(screen.getByLabelText("Slot 1 snake color"), { target: { value: "#ff0000" } });
+    const saved = JSON.parse(localStorage.getItem("ai-snake-agents:preferences")!) as Preferences;
+    expect(saved).toMatchObject({
+      boardTheme: "dark", snakeColors: ["#ff0000", "#9333ea", "#ea580c", "#db2777", "#0891b2", "#ca8a04"]
+    });
+    expect(saved.overlays.every((o) => o.heatmap)).toBe(true);
+  });
+
+  it("toggles overlays on one grid and summarises them", async () => {
+    mockBackend({ simulate: () => simulateResponse(diedGame) });
+    await renderLiveApp();
+    await userEvent.click(screen.getByRole("button", { name: "Add slot" }));
+    await runGame();
+    await userEvent.click(await screen.findByRole("button", { name: "Pause" }));
+    fireEvent.keyDown(window, { key: "End" });
+
+    const slot1 = screen.getByRole("group", { name: "Slot 1: A* overlays" });
+    await userEvent.click(within(slot1).getByRole("button", { name: "Heatmap" }));
+    await userEvent.click(within(slot1).getByRole("button", { name: "Fruit markers" }));
+    expect(within(slot1).getByRole("button", { name: "Heatmap" })).toHaveAttribute("aria-pressed", "true");
+    expect(screen.getAllByText(/^Visited/)).toEqual([screen.getByText("Visited 7/9 cells, at most 1× on one")]);
+    expect(screen.getByText("2.0 moves per fruit from spawn to collection")).toBeInTheDocument();
+    expect(screen.getByRole("checkbox", { name: "Heatmap" })).not.toBeChecked(); // not on every board
+  });
+
+  it("shows the custom palette only for the custom theme", async () => {
+    mockBackend({});
+    await renderLiveApp();
+    expect(screen.queryByLabelText("Walls")).not.toBeInTheDocument();
+    await userEvent.selectOptions(screen.getByLabelText("Board theme:"), "custom");
+    expect(screen.getByLabelText("Walls")).toHaveValue("#000000");
+  });
+});
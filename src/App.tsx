@@ -3,364 +3,495 @@
  * Author: Jakob Garcia
  * Description: This file implements the front end of my AI Snake project. 
  */
-import { useState, useEffect, type JSX } from "react"
-
-type GameState = {snake:number[], fruit:number, won:boolean, died:boolean}
-
-type TableResult = {
-  agent: string,
-  gridSize: string,
-  train: string,
-  moveCount: number,
-  fruitCount: number,
-  finalLength: number,
-  avgMove: string,
-  outcome: string,
-  replay: GameState[],
-  agentCode: string,
-  replaySize: number
-}
-
-// Shared Tailwind style groups for consistency and readability
-const styles = {
-  card: "rounded-2xl border border-black/10 bg-gray-400/70 shadow-lg",
-  cardPadding: "py-5 px-8",
-  label: "tracking-wide text-md",
-  select: "bg-blue-200 rounded-sm pl-1",
-  input: "bg-blue-200 rounded-sm pl-1",
-  btnPrimary: "rounded-lg bg-sky-500 px-4 py-2 text-sm font-semibold text-white shadow hover:bg-sky-400 transition",
-  btnSecondary: "rounded-lg bg-gray-300 px-3 py-2 text-sm font-medium text-black hover:bg-gray-200 transition",
-  btnPrimarySm: "rounded-lg bg-sky-500 px-3 py-2 text-xs font-semibold text-white hover:bg-sky-400 transition",
-  btnSlate: "rounded-lg bg-slate-800 px-3 py-2 text-xs font-semibold text-slate-100 hover:bg-slate-700 transition",
-  sectionTitle: "text-lg font-semibold text-white",
-  tableCell: "px-4 py-3 text-sm border-r border-black",
-  tableCellLast: "px-4 py-3 text-sm",
-  outcomeWon: "rounded-full px-3 py-1 ml-2 text-xs font-semibold bg-emerald-500/20 text-emerald-200 border border-emerald-500/40",
-  outcomeLost: "rounded-full px-3 py-1 ml-2 text-xs font-semibold bg-rose-500/20 text-rose-200 border border-rose-500/40",
-} as const
-
-
-/**
- * Sends an API request to the backend to retrieve the steps to replay a simulated
- * game
- * @param agent a string of the agent model type 
- * @param eps the number of training episodes for the model
- * @param gridSize a number N representing the size of an NxN grid
- * @param seed a string number for random seeding
- * @returns A list of GameStates, where each item indicates one move the snake made.
- */
-async function sendRequest(agent:string, eps:string, gridSize:number, seed:string): Promise<GameState[]> {
-  const res = await fetch("https://ai-snake-agents-backend.onrender.com/simulate", {
-    method: "POST",
-    headers: { "Content-Type": "application/json" },
-    body: JSON.stringify({
-      agent: agent,
-      eps: eps,
-      grid_size: gridSize,
-      seed: seed
-    })
-  });
-
-  const data = await res.json();
-  return data.states;
-}
-
-/**
- * Pings the backend to wake it up/check if it is awake
- */
-async function pingServer() {
-  await fetch("https://ai-snake-agents-backend.onrender.com/ping", {
-    method: "POST",
-    headers: { "Content-Type": "application/json" },
-    body: JSON.stringify({
-      ping: "ping"
-    })
-  });
-}
-
-
-/**
- * A helper function for determining the color of a snake square by 
- * calculating the hue, saturation, and lightness. 
- * @param index The position from the head of the body part being colored
- * @param maxScale The maximum snake size (the size of the grid)
- * @returns a string of the proper color
- */
-function snakeColor(index: number, maxScale: number): string {
-  // clamp for safety
-  const t = Math.max(0, Math.min(1, (maxScale - index) / maxScale))
-
-  // Dark blue to light blue
-  const hue = 210       // blue
-  const saturation = 90 // %
-  const lightnessMin = 30
-  const lightnessMax = 90
-
-  const lightness =
-    lightnessMin + t * (lightnessMax - lightnessMin)
-
-  return `hsl(${hue}, ${saturation}%, ${lightness}%)`
-}
+import { useState, useEffect, useMemo, useRef, type JSX } from "react"
+import type { GameState, TableResult } from "./types"
+import { api, ApiError } from "./api/client"
+import { useServerHealth, type ServerHealth, type ServerStatus } from "./hooks/useServerHealth"
+import { useHistory } from "./hooks/useHistory"
+import { useHumanGame } from "./hooks/useHumanGame"
+import { useAgentCatalog } from "./hooks/useAgentCatalog"
+import { usePreferences } from "./hooks/usePreferences"
+import { mergeHistory, parseHistoryFile, toHistoryFile, MAX_HISTORY_ENTRIES, type HistoryMerge } from "./history/historyStore"
+import { downloadBlob } from "./utils/download"
+import { buildPermalink, findLinkedRuns, parsePermalink, type GridConfig } from "./url/permalink"
+import { findEvents, issueEvents, nextEventStep, previousEventStep } from "./replay/events"
+import { validateReplay } from "./replay/validate"
+import { activeLoop, clampSpeed, nextPlaybackStep, withLoopEnd, withLoopStart, type LoopRange } from "./replay/playback"
+import { isLocalAgent } from "./agents/localAgents"
+import { runLocalAgent } from "./agents/localClient"
+import { replayFruits } from "./engine/engine"
+import type { ExportSource } from "./export/replayExport"
+import { highContrastBoardColors } from "./render/board"
+import { boardThemeFor, themeSnakeColor, withSnakeColor } from "./render/themes"
+import { visitCounts, type BoardOverlays } from "./render/overlays"
+import { stepAnnouncement } from "./a11y/describe"
+import { styles } from "./styles"
+import { createTableResult, randomSeed, sameReplay } from "./results"
+import { agentIssue, agentName, catalogGridSizes, findAgent, BOARD_SIZE_RANGE, HUMAN_AGENT } from "./agents/catalog"
+import { createSlot, slotColors, slotLabel, withResult, MAX_SLOTS, type Slot } from "./comparison/slots"
+import ModelSelect from "./components/ModelSelect"
+import BenchmarkPanel from "./components/BenchmarkPanel"
+import AnalyticsPanel from "./components/AnalyticsPanel"
+import HistoryTable from "./components/HistoryTable"
+import Grid from "./components/Grid"
+import Timeline from "./components/Timeline"
+import ReplayIssues from "./components/ReplayIssues"
+import HumanPlayPanel from "./components/HumanPlayPanel"
+import ExportDialog from "./components/ExportDialog"
+import DisplaySettings from "./components/DisplaySettings"
 
 /**
- * This function creates the model selectors for the agents, including selectors
- * and text input. 
- * @param agent a string of the current model type 
- * @param eps the number of training episodes for the model
- * @param seed a string number for random seeding
- * @param setAgent a setState function for the agent variable
- * @param setEps a setState function for the eps variable
- * @param setSeed a setState function for the seed variable
- * @param resetBoard an anonymous function for clearing the board and related states/variables
+ * This function creates the header badge showing the backend health, how long
+ * ago it was last checked, and the ping latency. Clicking it re-checks immediately.
+ * @param health the current server health from useServerHealth
  * @returns JSX elements for this component
  */
-function ModelSelect({agent, eps, seed, setAgent, setEps, setSeed, resetBoard}:
-      {agent:string, 
-      eps:string,
-      seed:string,
-      setAgent:React.Dispatch<React.SetStateAction<string>>,
-      setEps:React.Dispatch<React.SetStateAction<string>>,
-      setSeed:React.Dispatch<React.SetStateAction<string>>,
-      resetBoard:()=>void}): JSX.Element {
-
-  // Set default episode count when switching agent types
-  useEffect(() => {
-    if (agent === "a*") setEps("N/A");
-    else if (agent.includes("deep") && !["1k", "3k", "5k"].includes(eps)) setEps("1k");
-    else if (!["50k", "75k", "100k"].includes(eps)) setEps("50k");
-  }, [agent]);
-
-  // Restrict the seed inputs to numerical values from [0, 999]
-  const onChange: React.ChangeEventHandler<HTMLInputElement> = (e) => {
-    const value = e.target.value;
-    if (value === '') {
-      setSeed('');
-      return;
-    }
-    // digits only (blocks '-', 'e', '.')
-    if (!/^\d+$/.test(value)) {return;}
-     // no leading zeros (except "0")
-    if (value.length > 1 && value.startsWith('0')) {return;}
-    
-    const n = Number(value);
-    if (n > 999) {
-      e.target.value = seed;
-      return;
-    }
-    setSeed(value);
-  };
-
-
-  return (
-    <>
-      <div className="grid grid-cols-2 gap-2">
-        {/* Model Selection */}
-        <label htmlFor="agent-type" className={styles.label}>Select Agent:</label>
-        <select className={styles.select} id="agent-type" value={agent} onChange={(e) => { resetBoard(); setAgent(e.target.value); }}>
-          <option value="a*">A* Agent</option>
-          {/* Temporarily commented out as tabular model was too large for server and needs to be made smaller */}
-          {/* <option value="ql">Q-Learning Agent</option> */}
-          <option value="apx-ql">Approx. QL Agent</option>
-          <option value="deep-ql">Deep QL Agent</option>
-        </select>
-
-        {/* Episode Count Selection */}
-        <label htmlFor="episode-count" className={styles.label}>Training Amount:</label>
-        {/* A* does not use training; deep agents use less training */}
-        {agent === "a*" ? (
-          <p>N/A</p>
-        ) : (
-          <select className={styles.select} id="episode-count" value={eps} onChange={(e) => { resetBoard(); setEps(e.target.value); }}>
-            {agent.includes("deep") ? (
-              <>
-                <option value="1k">1k eps</option>
-                <option value="3k">3k eps</option>
-                <option value="5k">5k eps</option>
-              </>
-            ) : (
-              <>
-                <option value="50k">50k eps</option>
-                <option value="75k">75k eps</option>
-                <option value="100k">100k eps</option>
-              </>
-            )}
-          </select>
-        )}
+function ServerStatusBadge({ health }: { health: ServerHealth }): JSX.Element {
+  const [now, setNow] = useState<number>(() => Date.now());
 
-        {/* Optional Seed Input */}
-        <label htmlFor="seed-input" className={styles.label}>Seed Value:</label>
-        <input type="text" inputMode="numeric" value={seed} className={styles.input} id="seed-input" placeholder="0-999" onChange={onChange} />
-      </div>
-    </>
-  );
-}
+  useEffect(() => { // tick so the "checked ... ago" text stays current
+    const id = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(id);
+  }, []);
 
-/**
- * This function creates the grid that displays the simulated snake game. 
- * @param gridSize a number N representing the size of an NxN grid
- * @param timeStep the current time *s* of the *s-th* step taken by the snake 
- * @param gameStates the array of states the snake will take for a given simulation
- * @returns JSX elements for this component
- */
-function Grid({ gridSize, timeStep, gameStates }: { gridSize: number; timeStep: number; gameStates: GameState[] }): JSX.Element {
-  const [grid, setGrid] = useState<JSX.Element[]>([]);
-
-  // When 2 grids are used and one game ends early, freeze on the last move
-  const effectiveStep = timeStep >= gameStates.length ? gameStates.length - 1 : timeStep;
-
-  // Determine the color a given square should have
-  const cellClass = (i: number) => {
-    const row = Math.floor(i / gridSize);
-    const col = i % gridSize;
-    const isWall = row === 0 || row === gridSize - 1 || col === 0 || col === gridSize - 1;
-    if (isWall) return "bg-black border-cyan-700/80";
-    const isFruit = gameStates.length > 0 && i === gameStates[effectiveStep].fruit; 
-    if (isFruit) return "bg-red-500";
-    return i % 2 ? "bg-green-500/90" : "bg-green-300";
+  const labels: Record<ServerStatus, string> = {
+    sleeping: "Sleeping",
+    waking: "Waking up...",
+    live: "Live",
+    unreachable: "Unreachable"
   };
-
-  // Depict the current game state onto the grid, coloring the snake and everything else
-  const generateGrid = () => {
-    const maxSnake = (gridSize - 2) * (gridSize - 2);
-    const snakeColors = Array.from({ length: maxSnake }, (_, i) => snakeColor(i + 1, maxSnake)).reverse();
-    return Array.from({ length: gridSize * gridSize }, (_, i) => {
-      const snakeIndex = gameStates.length === 0 ? -1 : gameStates[effectiveStep].snake.indexOf(i);
-      return (
-        <div
-          key={i}
-          className={`w-8 border aspect-square ${cellClass(i)}`}
-          style={snakeIndex !== -1 ? { backgroundColor: snakeColors[snakeIndex] } : undefined}
-        />
-      );
-    });
+  const dots: Record<ServerStatus, string> = {
+    sleeping: "bg-slate-400",
+    waking: "bg-amber-400 animate-pulse",
+    live: "bg-emerald-500",
+    unreachable: "bg-rose-500"
   };
 
-  useEffect(() => { // regenerate grid every time the size or time changes
-      setGrid(generateGrid());
-  }, [gridSize, timeStep, gameStates]);
-
-  const gridStats = "pl-4 -mt-4 pb-2";
-  const fruitCount = gameStates.length === 0 ? 0 : gameStates[effectiveStep].snake.length - 1;
+  let checked = "not checked yet";
+  if (health.lastCheckedAt !== null) {
+    const seconds = Math.max(0, Math.floor((now - health.lastCheckedAt) / 1000));
+    checked = `checked ${seconds < 60 ? `${seconds}s` : `${Math.floor(seconds / 60)}m`} ago`;
+  }
 
   return (
-    <>
-      {/* The grid itself */}
-      <div>
-        <div className="grid p-4" style={{gridTemplateColumns: `repeat(${gridSize}, 2rem)`}}>
-          {grid}
-        </div>
-        <p className={gridStats}>Moves: {effectiveStep}</p>
-        <p className={gridStats}>Fruits: {fruitCount}</p>
-      </div>
-    </>
+    <button
+      className="flex items-center gap-2 rounded-full border border-black/10 bg-white px-3 py-1 text-xs font-semibold text-slate-600"
+      title={health.lastError ?? "Check now"}
+      onClick={health.checkNow}
+    >
+      <span className={`h-2 w-2 rounded-full ${dots[health.status]}`} />
+      Server Status: {labels[health.status]}
+      {health.status === "live" && health.latencyMs !== null && <span className="font-normal">({health.latencyMs} ms)</span>}
+      <span className="font-normal text-slate-400">{checked}</span>
+    </button>
   );
 }
 
 export default function App() {
-  const [gridSize, setGridSize] = useState<number>(5);
-  const [twoGrids, setTwoGrids] = useState<boolean>(false);
-
-  const [gameStates1, setGameStates1] = useState<GameState[]>([]); 
-  const [gameStates2, setGameStates2] = useState<GameState[]>([]); 
-  const [agent1, setAgent1] = useState<string>("a*");
-  const [agent2, setAgent2] = useState<string>("a*");
-  const [eps1, setEps1] = useState<string>("N/A");
-  const [eps2, setEps2] = useState<string>("N/A");
-  const [seed1, setSeed1] = useState<string>('');
-  const [seed2, setSeed2] = useState<string>('');
+  const [tableRes, setTableRes, savedRuns, historyUnreadable] = useHistory();
+
+  // Settings from a shared link, if the app was opened with one. Linked runs that
+  // are already in the history are replayed from there instead of re-run.
+  const [link] = useState(() => parsePermalink(window.location.search, BOARD_SIZE_RANGE));
+  const [linkedRuns] = useState(() => (link?.step === undefined ? null : findLinkedRuns(link, tableRes)));
+  const linkStepRef = useRef<number | undefined>(linkedRuns ? undefined : link?.step); // kept in the URL until the linked game loads
+
+  const [gridSize, setGridSize] = useState<number>(link ? link.gridSize + 2 : 5);
+  // The comparison slots, each with its own agent settings and loaded replay
+  const [slots, setSlots] = useState<Slot[]>(() => link ? link.grids.map((g, i) => ({
+    ...createSlot(g),
+    states: linkedRuns?.[i].replay ?? [],
+    runSeed: linkedRuns?.[i].seed ?? ""
+  })) : [createSlot()]);
+  // Whether every slot plays with the seed of the first one
+  const [sameSeed, setSameSeed] = useState<boolean>(false);
 
   const [playing, setPlaying] = useState<boolean>(false);
   const [loading, setLoading] = useState<boolean>(false);
-  const [speed, setSpeed] = useState<number>(1); // 1x, 2x, 4x
-  const [tableRes, setTableRes] = useState<TableResult[]>([]); 
-  const [timeStep, setTimeStep] = useState<number>(0);
-  const [serverAwake, setServerAwake] = useState<boolean>(false);
-
-  const nameMap: Record<string, string> = {
-    "a*" : "A*",
-    "ql" : "Q-Learning",
-    "apx-ql" : "Approx. QL",
-    "deep-ql" : "Deep QL"
-  }
+  const [speed, setSpeed] = useState<number>(1); // multiplier of one move every 500 ms
+  const [loop, setLoop] = useState<LoopRange | null>(null);
+  const [historyNotice, setHistoryNotice] = useState<string | null>(() =>
+    historyUnreadable ? "Saved history was unreadable and will be replaced by new runs" : null);
+  const importRef = useRef<HTMLInputElement>(null);
+  const [timeStep, setTimeStep] = useState<number>(() =>
+    linkedRuns ? Math.min(link?.step ?? 0, Math.max(...linkedRuns.map((r) => r.replay.length)) - 1) : 0);
+  const health = useServerHealth();
+  const [preferences, updatePreferences] = usePreferences();
+  const boardTheme = useMemo(() => {
+    const theme = preferences.highContrast ? highContrastBoardColors : boardThemeFor(preferences.boardTheme, preferences.customPalette);
+    return { ...theme, gridLines: preferences.gridLines };
+  }, [preferences.highContrast, preferences.boardTheme, preferences.customPalette, preferences.gridLines]);
+  // Each slot's snake in its own color, kept stable so the grids only redraw their background on a theme change
+  const slotThemes = useMemo(() => Array.from({ length: MAX_SLOTS }, (_, i) =>
+    withSnakeColor(boardTheme, preferences.snakeColors[i] ?? "")), [boardTheme, preferences.snakeColors]);
+  const setSlotOverlays = (index: number) => (overlays: BoardOverlays) =>
+    updatePreferences({ overlays: preferences.overlays.map((o, i) => (i === index ? overlays : o)) });
+  const catalog = useAgentCatalog(health.whenLive);
+  // Interior board sizes offered by the grid size selector
+  const gridSizeOptions = catalogGridSizes(catalog.agents);
+  const [queued, setQueued] = useState<boolean>(false);
+  const queueRef = useRef<AbortController | null>(null);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  // The outcome of the last "Copy link"; a failure keeps the link on screen to copy by hand
+  const [linkCopy, setLinkCopy] = useState<"copied" | "failed" | null>(null);
+  const loadRef = useRef<AbortController | null>(null);
+  const generationRef = useRef<number>(0);
+
+  // Games played by hand go straight into the history
+  const [challenge, setChallenge] = useState<TableResult | null>(null);
+  const human = useHumanGame((states, options, durationMs) => {
+    const meta = { source: "local", durationMs, response: { tickMs: options.tickMs, fruitsFromRun: challenge?.id ?? null } };
+    const result = createTableResult(HUMAN_AGENT, "N/A", options.gridSize + 2, states, String(options.seed), meta);
+    setTableRes(t => [result, ...t]);
+  });
+  const humanPlaying = human.status === "ready" || human.status === "running";
+  const [exportSource, setExportSource] = useState<ExportSource | null>(null);
+
+  const maxStep = Math.max(...slots.map((s) => s.states.length)) - 1;
+  const canStepForward = timeStep < maxStep;
+  const playLoop = activeLoop(loop, maxStep); // ignore a loop left over from a longer game
+  const violations = useMemo(() => slots.map((s) => validateReplay(s.states, gridSize)), [slots, gridSize]);
+  const events = useMemo(() => slots.map((s, i) => [...findEvents(s.states), ...issueEvents(violations[i])]),
+    [slots, violations]);
+  // Heatmaps share one scale, so the same shade means as many visits on every board
+  const heatmapScale = useMemo(() => Math.max(0, ...slots.map((s, i) => (preferences.overlays[i]?.heatmap
+    ? Math.max(...visitCounts(s.states, timeStep, gridSize)) : 0))), [slots, preferences.overlays, timeStep, gridSize]);
+  // Read out fruit and outcomes during playback, and every board when stepping through
+  const announcement = stepAnnouncement(slots.map((s, i) => ({ label: slotLabel(i), states: s.states })), timeStep, !playing);
 
-  // Wake up the server on first boot
-  useEffect(() => {
-    const ping = async () =>{await pingServer();}
-    ping();
-    setServerAwake(true);
-  }, []);
-  
   useEffect(() => { // play the snake moves with the play button
-    if (!playing || gameStates1.length === 0) {
-      setPlaying(false);
-      return;
-    }
+    if (!playing) return;
     const intervalMs = 500 / speed;
     // auto loop the snake
     const id = setInterval(() => {
       setTimeStep(prev => {
-        if (prev >= Math.max(gameStates1.length, gameStates2.length) - 1) {
+        const next = nextPlaybackStep(prev, maxStep, playLoop);
+        if (next === null) {
           setPlaying(false);
           return prev; // time ended
         }
-        return prev + 1;
+        return next;
       });
     }, intervalMs);
     return () => clearInterval(id);
-  }, [playing, speed]);
-
-
-  const createTableResult = (agent:string, eps:string, endIndex:number, data:GameState[]):TableResult => {
-   return {
-      agent: nameMap[agent],
-      gridSize: (gridSize-2)+"x"+(gridSize-2),
-      train: eps,
-      moveCount: endIndex,
-      fruitCount: data[endIndex].snake.length-1,
-      finalLength: data[endIndex].snake.length,
-      avgMove: (endIndex/((data[endIndex].snake.length-1)+1e-9)).toFixed(3),
-      outcome: data[endIndex].won ? "Won" : "Lost",
-      replay: [...data],
-      agentCode : agent,
-      replaySize : gridSize
-    }; 
-  }
+  }, [playing, speed, maxStep, playLoop]);
 
-  // Send a request to load a new game and then display the grid and start running
-  const loadNewGame = async () => { 
+  // Keyboard shortcuts for the player; ignored while typing in a form field, and
+  // Space is left to a focused button or link to press it
+  useEffect(() => {
+    const onKey = (e: KeyboardEvent) => {
+      if (e.ctrlKey || e.metaKey || e.altKey || maxStep <= 0 || humanPlaying || exportSource) return;
+      if (e.target instanceof Element && e.target.closest("input, select, textarea")) return;
+      if (e.key === " " && e.target instanceof Element && e.target.closest("button, a, [role=button], summary")) return;
+      const seek = (step: number | undefined) => {
+        if (step === undefined) return;
+        setPlaying(false);
+        setTimeStep(Math.max(0, Math.min(maxStep, step)));
+      };
+      const allEvents = events.flat();
+
+      if (e.key === " ") {
+        if (canStepForward || playLoop) setPlaying((p) => !p);
+        else { setTimeStep(0); setPlaying(true); }
+      } else if (e.key === "ArrowLeft") seek(e.shiftKey ? previousEventStep(allEvents, timeStep) : timeStep - 1);
+      else if (e.key === "ArrowRight") seek(e.shiftKey ? nextEventStep(allEvents, timeStep) : timeStep + 1);
+      else if (e.key === "ArrowUp") setSpeed((s) => clampSpeed(s * 2));
+      else if (e.key === "ArrowDown") setSpeed((s) => clampSpeed(s / 2));
+      else if (e.key === "Home") seek(0);
+      else if (e.key === "End") seek(maxStep);
+      else if (/^[0-9]$/.test(e.key)) seek(Math.round((maxStep * Number(e.key)) / 10)); // 0-9 jump to 0%-90%
+      else if (e.key === "[") setLoop((l) => withLoopStart(l, timeStep, maxStep));
+      else if (e.key === "]" && timeStep > 0) setLoop((l) => withLoopEnd(l, timeStep));
+      else if (e.key === "Escape") setLoop(null);
+      else return;
+      e.preventDefault(); // keep space and arrows from scrolling the page
+    };
+    window.addEventListener("keydown", onKey);
+    return () => window.removeEventListener("keydown", onKey);
+  }, [maxStep, timeStep, canStepForward, playLoop, events, humanPlaying, exportSource]);
+
+
+  // Send a request per slot to load new games and then display the grids and start running.
+  // Blank seeds are replaced by random ones so every run in the history can be reproduced.
+  // Local agents play in a worker once the backend games are in, on the same board and
+  // fruit as the first of them with the same seed, so they are a like-for-like baseline
+  // whose row and link still name the seed that reproduces it. With a different seed
+  // they play the fruit the local engine draws for their own seed.
+  // Each run gets a generation number; resetting or changing settings bumps it, so a
+  // response that arrives afterwards is discarded instead of overwriting the board.
+  // With a startStep the game opens paused at that step instead of playing, and
+  // with a fruit replay the local agents play against it instead.
+  const runGames = async (configs: GridConfig[], size: number, startStep?: number,
+      fruit?: GameState[]): Promise<TableResult[] | null> => {
+    cancelLoad();
+    const controller = new AbortController();
+    const generation = generationRef.current;
+    loadRef.current = controller;
     setLoading(true);
-    // Race condition here where we can load something, and then while loading switch grids, and then it still runs.
-    const data1 = await sendRequest(agent1,eps1,gridSize-2,seed1);
-    const endIndex1 = data1.length-1
-    const result1: TableResult = createTableResult(agent1, eps1, endIndex1, data1)
-    setTableRes(t => [result1,...t])
-
-    if(twoGrids) {
-      const data2 = await sendRequest(agent2,eps2,gridSize-2,seed2);
-      const endIndex2 = data2.length-1
-      const result2: TableResult = createTableResult(agent2, eps2, endIndex2, data2)
-      setTableRes(t => [result2,...t])
-      setGameStates2(data2);
+    setLoadError(null);
+
+    try {
+      const shared = sameSeed ? configs[0].seed || randomSeed() : "";
+      const runs = configs.map((c) => ({ ...c, seed: shared || c.seed || randomSeed() }));
+      const remote = await Promise.all(runs.map((c) => isLocalAgent(c.agent) ? null :
+        api.simulate({ agent: c.agent, eps: c.eps, gridSize: size-2, seed: c.seed }, { signal: controller.signal })));
+      const responses = await Promise.all(runs.map((c, i) => {
+        if (remote[i]) return remote[i];
+        const reference = fruit ?? remote.find((r, j) => r !== null && runs[j].seed === c.seed)?.states;
+        return runLocalAgent({ agent: c.agent, gridSize: size - 2, seed: Number(c.seed), ...(reference ? replayFruits(reference) : {}) },
+          { signal: controller.signal });
+      }));
+      if (generation !== generationRef.current) return null; // stale response
+
+      const results = runs.map((c, i) => createTableResult(c.agent, c.eps, size, responses[i].states, c.seed, responses[i].meta));
+      setTableRes(t => [...[...results].reverse(), ...t])
+      setSlots((current) => current.map((slot, i) => results[i]
+        ? { ...slot, states: results[i].replay, runSeed: runs[i].seed }
+        : slot));
+      linkStepRef.current = undefined;
+      if (startStep === undefined) {
+        setTimeStep(0);
+        setPlaying(true);
+      } else {
+        setTimeStep(Math.min(startStep, Math.max(...results.map((r) => r.replay.length)) - 1));
+        setPlaying(false);
+      }
+      return results;
+    } catch (err) {
+      controller.abort(); // stop the other slots' requests if one of them failed
+      if (generation !== generationRef.current) return null;
+      if (err instanceof ApiError && (err.kind === "network" || err.kind === "timeout")) health.checkNow();
+      setLoadError(err instanceof Error ? err.message : String(err));
+      return null;
+    } finally {
+      if (generation === generationRef.current) {
+        loadRef.current = null;
+        setLoading(false);
+      }
     }
-    setGameStates1(data1);
+  };
+
+  // Run new games with the current settings of the slots
+  const loadNewGame = (startStep?: number) =>
+    runGames(slots.map(({ agent, eps, seed }) => ({ agent, eps, seed })), gridSize, startStep);
+
+  // Whether the current settings need the backend, or only use local agents
+  const needsServer = slots.some((s) => !isLocalAgent(s.agent));
+  // Why the selected agents cannot play the selected board, if they cannot
+  const settingsIssue = slots.map((s, i) => {
+    const info = findAgent(catalog.agents, s.agent);
+    const issue = info ? agentIssue(info, gridSize - 2) : `Unknown agent "${s.agent}"`;
+    return issue && slots.length > 1 ? `${slotLabel(i)}: ${issue}` : issue;
+  }).find((issue) => issue !== undefined);
+
+  // A setter for one field of a slot's settings, for ModelSelect
+  const setSlotField = (index: number, field: keyof GridConfig): React.Dispatch<React.SetStateAction<string>> =>
+    (value) => setSlots((ss) => ss.map((s, i) =>
+      i === index ? { ...s, [field]: typeof value === "function" ? value(s[field]) : value } : s));
+
+  // Abort any in-flight game request and invalidate its result
+  const cancelLoad = () => {
+    generationRef.current++;
+    loadRef.current?.abort();
+    loadRef.current = null;
     setLoading(false);
-    setTimeStep(0);
-    setPlaying(true);
+  };
+
+  // Run a game now if the server is live, otherwise queue it until it wakes up.
+  // Clicking again while queued cancels the queued run.
+  const runWhenLive = async () => {
+    if (queueRef.current) {
+      queueRef.current.abort();
+      return;
+    }
+    if (health.status === "live" || !needsServer) {
+      loadNewGame();
+      return;
+    }
+    const controller = new AbortController();
+    queueRef.current = controller;
+    setQueued(true);
+    health.checkNow();
+    try {
+      await health.whenLive(controller.signal);
+    } catch {
+      return; // cancelled
+    } finally {
+      queueRef.current = null;
+      setQueued(false);
+    }
+    loadNewGame();
+  };
+
+  // The latest loadNewGame, for the linked game to load with the settings of the render it is ready in
+  const loadNewGameRef = useRef(loadNewGame);
+  useEffect(() => { loadNewGameRef.current = loadNewGame; });
+
+  // Re-run the game from a shared link once the server is up, opening it at the linked step.
+  // The link and the runs it matched never change, so this only runs on first load.
+  const { whenLive } = health;
+  useEffect(() => {
+    if (link?.step === undefined || linkedRuns) return;
+    const controller = new AbortController();
+    const ready = link.grids.every((g) => isLocalAgent(g.agent)) ? Promise.resolve() : whenLive(controller.signal);
+    ready.then(() => loadNewGameRef.current(link.step), () => {});
+    return () => controller.abort();
+  }, [link, linkedRuns, whenLive]);
+
+  // Mirror the settings and the paused replay step into the URL so it can be shared
+  useEffect(() => {
+    if (playing) return; // avoid rewriting the URL on every frame
+    const loaded = slots.some((s) => s.states.length > 0);
+    const grids = slots.map((s) => ({ agent: s.agent, eps: s.eps, seed: (loaded && s.runSeed) || s.seed }));
+    const step = loaded ? timeStep : linkStepRef.current;
+    const search = buildPermalink({ gridSize: gridSize - 2, grids, step });
+    window.history.replaceState(null, "", `${window.location.pathname}${search}${window.location.hash}`);
+  }, [playing, gridSize, slots, timeStep]);
+
+  // The clipboard is refused outside secure contexts or without permission
+  const copyLink = async () => {
+    try {
+      await navigator.clipboard.writeText(window.location.href);
+    } catch {
+      setLinkCopy("failed");
+      return;
+    }
+    setLinkCopy("copied");
+    setTimeout(() => setLinkCopy(null), 2000);
   };
 
   const resetBoard = () => { // Clear all states
+    queueRef.current?.abort();
+    linkStepRef.current = undefined;
+    cancelLoad();
+    setLoadError(null);
     setPlaying(false);
-    setLoading(false);
-    setGameStates1([]);
-    setGameStates2([]);
+    setSlots((ss) => ss.map((slot) => ({ ...slot, states: [], runSeed: "" })));
+    setLoop(null);
     setTimeStep(0);
   };
 
-  const maxStep = Math.max(gameStates1.length, gameStates2.length) - 1;
-  const canStepForward = timeStep < maxStep;
+  // Load a finished run into a slot; `slots.length` adds a new slot for it.
+  // When the grid size changes, the other slots are cleared so none of them
+  // shows a board of the wrong size.
+  const replayResult = (res: TableResult, index: number) => {
+    cancelLoad();
+    setPlaying(false);
+    const resized = gridSize !== res.replaySize;
+    setSlots((ss) => {
+      const next = resized ? ss.map((slot) => ({ ...slot, states: [], runSeed: "" })) : [...ss];
+      next[index] = withResult(next[index] ?? createSlot(), res);
+      return next;
+    });
+    setGridSize(res.replaySize);
+    setTimeStep(0);
+  };
+
+  // Load history rows into the slots side by side, one slot each
+  const compareResults = (results: TableResult[]) => {
+    if (results.some((r) => r.replaySize !== results[0].replaySize)) {
+      setHistoryNotice("Only runs on the same grid size can be compared");
+      return;
+    }
+    cancelLoad();
+    setPlaying(false);
+    setGridSize(results[0].replaySize);
+    setSlots(results.slice(0, MAX_SLOTS).map((r) => withResult(createSlot(), r)));
+    setLoop(null);
+    setTimeStep(0);
+  };
+
+  // Simulate a history row again with its recorded settings and seed, in a single slot,
+  // and report whether the backend reproduced the exact same game
+  const rerunResult = async (res: TableResult) => {
+    resetBoard();
+    setGridSize(res.replaySize);
+    setSlots([createSlot({ agent: res.agentCode, eps: res.train, seed: res.seed })]);
+    // A local run that played against a backend run's fruit is re-run against that fruit again
+    const matched = isLocalAgent(res.agentCode) && res.meta?.response.matchedFruit === true;
+    const results = await runGames([{ agent: res.agentCode, eps: res.train, seed: res.seed }], res.replaySize,
+      undefined, matched ? res.replay : undefined);
+    if (!results) return;
+    setHistoryNotice(sameReplay(results[0].replay, res.replay)
+      ? "Re-run reproduced the recorded game"
+      : "Re-run did not reproduce the recorded game");
+  };
+
+  // Play a history row's board by hand against the same fruit
+  const playResult = (res: TableResult) => {
+    human.stop();
+    setChallenge(res);
+    document.getElementById("human-play")?.scrollIntoView({ behavior: "smooth" });
+  };
+
+  // Export the loaded slots side by side, opening at the current step
+  const exportSlots = () => {
+    const loaded = slots.map((slot, i) => ({ slot, i })).filter(({ slot }) => slot.states.length > 0);
+    setPlaying(false);
+    setExportSource({
+      title: loaded.length === 1 ? slotLabel(loaded[0].i) : `Slots ${loaded.map(({ i }) => i + 1).join(", ")}`,
+      gridSize,
+      boards: loaded.map(({ slot, i }) => ({
+        label: `${slotLabel(i)}: ${agentName(slot.agent)}`, color: slotColors[i], states: slot.states, theme: slotThemes[i],
+        overlays: preferences.overlays[i]
+      })),
+      step: timeStep,
+      theme: boardTheme,
+      trailLength: preferences.trailLength
+    });
+  };
+
+  // Export a single history row, opening at its final board
+  const exportResult = (res: TableResult) => setExportSource({
+    title: `${res.agent} ${res.gridSize}${res.seed ? ` seed ${res.seed}` : ""}`,
+    gridSize: res.replaySize,
+    boards: [{ label: `${res.agent} (${res.train})`, color: slotColors[0], states: res.replay, overlays: preferences.overlays[0] }],
+    step: res.replay.length - 1,
+    theme: slotThemes[0],
+    trailLength: preferences.trailLength
+  });
+
+  // Download the full history, replays included, as a versioned JSON file
+  const exportHistory = () => {
+    const file = JSON.stringify(toHistoryFile(tableRes), null, 2);
+    const date = new Date().toISOString().slice(0, 10);
+    downloadBlob(new Blob([file], { type: "application/json" }), `snake-history-${date}.json`);
+  };
+
+  // Merge the runs from an exported file into the history by when they ran, and say
+  // which runs did not fit under the entry limit or in browser storage
+  const importHistory = async (file: File) => {
+    try {
+      const imported = parseHistoryFile(JSON.parse(await file.text()));
+      let merge: HistoryMerge = { results: [], added: 0, dropped: 0 };
+      const saved = setTableRes((t) => {
+        merge = mergeHistory(t, imported);
+        return merge.results;
+      });
+      const notice = [`Imported ${merge.added} run${merge.added === 1 ? "" : "s"}`];
+      if (merge.dropped > 0) notice.push(`dropped ${merge.dropped} older run${merge.dropped === 1 ? "" : "s"} to stay within ${MAX_HISTORY_ENTRIES}`);
+      if (saved < merge.results.length) notice.push(`only ${saved} of ${merge.results.length} fit in browser storage`);
+      setHistoryNotice(notice.join("; "));
+    } catch (err) {
+      setHistoryNotice(`Import failed: ${err instanceof SyntaxError ? "the file is not valid JSON" : (err as Error).message}`);
+    }
+  };
+
+  const clearHistory = () => {
+    if (window.confirm("Delete every run in the simulation history?")) {
+      setTableRes([]);
+      setHistoryNotice(null);
+    }
+  };
 
   return (
     <div className="bg-gray-400/40">
+      {/* Keyboard shortcuts past the settings */}
+      <nav aria-label="Skip links">
+        <a href="#player-controls" className={styles.skipLink}>Skip to the player controls</a>
+        <a href="#history" className={styles.skipLink}>Skip to the simulation history</a>
+      </nav>
+
       {/* Header */}
       <header className="bg-cyan-700/80 backdrop-blur">
         <div className="flex items-center justify-between px-6 py-2">
@@ -368,157 +499,240 @@ export default function App() {
             <p className="text-2xl font-semibold text-white">AI Snake Agents</p>
             <p className="text-sm text-slate-200">Run, compare, and replay agent simulations.</p>
           </div>
-          {/* Indicate if server is up or down */}
-          <span className="rounded-full border border-black/10 bg-white px-3 py-1 text-xs font-semibold text-slate-600">
-            Server Status: {serverAwake ? "Live" : "Sleeping"}
-          </span>
+          <div className="flex items-center gap-3">
+            <button className={styles.btnToggle} aria-pressed={preferences.highContrast}
+              title="Black and white board with colorblind-safe colors"
+              onClick={() => updatePreferences({ highContrast: !preferences.highContrast })}>High contrast</button>
+            {/* Indicate if server is up or down */}
+            <ServerStatusBadge health={health} />
+          </div>
         </div>
       </header>
 
       <main className="mx-auto max-w-6xl pb-8 mt-4">
-        {/* Model selection options above the grid */}
-        <section className="grid grid-cols-5 grid-rows-2 gap-4">
-          <div className={`${styles.card} ${styles.cardPadding} row-span-2 col-span-2`}>
-            <div className="mb-3 flex items-center gap-2">
-              <div className="h-2 w-2 rounded-full bg-emerald-400" />
-              <h2 className={styles.sectionTitle}>Grid 1</h2>
-            </div>
-            <ModelSelect agent={agent1} eps={eps1} setAgent={setAgent1} setEps={setEps1} seed={seed1} setSeed={setSeed1} resetBoard={resetBoard} />
-          </div>
-
-          {/* Grid size Selector */}
-          <div className={`${styles.card} row-start-2 col-start-3 max-h-15 p-5`}>
+        {/* Board settings shared by every slot */}
+        <section className={`${styles.card} flex flex-wrap items-center gap-6 px-5 py-3`}
+          title={catalog.source === "backend" ? "Agents and sizes from the server" : `Bundled agent list${catalog.error ? ` (${catalog.error})` : ""}`}>
+          <div>
             <label htmlFor="grid-size" className={styles.label}>Grid Size:</label>
             {/* size + 2 to include the walls when rendering */}
             <select className={`${styles.select} ml-2 w-24`} id="grid-size" value={gridSize} onChange={(e) => 
                 { resetBoard(); setGridSize(parseInt(e.target.value)); }}>
-              <option value={5}>3x3</option>
-              <option value={7}>5x5</option>
-              <option value={9}>7x7</option>
+              {gridSizeOptions.map((n) => <option key={n} value={n + 2}>{n}x{n}</option>)}
+              {/* e.g. a replayed human game on a board the agents do not offer */}
+              {!gridSizeOptions.includes(gridSize - 2) && <option value={gridSize}>{gridSize - 2}x{gridSize - 2}</option>}
             </select>
           </div>
+          <label className={`${styles.label} flex items-center gap-2`}>
+            <input type="checkbox" checked={sameSeed} onChange={(e) => { cancelLoad(); setSameSeed(e.target.checked); }} />
+            Same seed for every slot
+          </label>
+          <button className={`${styles.btnSecondarySm} ml-auto`} disabled={slots.length >= MAX_SLOTS}
+            onClick={() => { resetBoard(); setSlots((ss) => [...ss, createSlot()]); }}>Add slot</button>
+        </section>
 
-          {/* Second Model selection */}
-          <div className={`${styles.card} ${styles.cardPadding} row-span-2 col-span-2`}>
-            <div className="mb-3 flex items-center gap-2">
-              <div className="h-2 w-2 rounded-full bg-sky-400" />
-              <h2 className={styles.sectionTitle}>Grid 2</h2>
+        {/* Board appearance, saved across visits */}
+        <section aria-label="Display settings" className={`${styles.card} mt-2 px-5 py-3`}>
+          <DisplaySettings preferences={preferences} onChange={updatePreferences} />
+        </section>
+
+        {/* Model selection per comparison slot */}
+        <section className="mt-2 grid grid-cols-3 gap-4">
+          {slots.map((slot, i) => (
+            <div key={slot.id} className={`${styles.card} ${styles.cardPadding}`}>
+              <div className="mb-3 flex items-center gap-2">
+                <div className="h-2 w-2 rounded-full" style={{ backgroundColor: slotColors[i] }} />
+                <h2 className={styles.sectionTitle}>{slotLabel(i)}</h2>
+                <input type="color" className="h-5 w-6 cursor-pointer" title="Snake color"
+                  aria-label={`${slotLabel(i)} snake color`} value={preferences.snakeColors[i] || themeSnakeColor(boardTheme)}
+                  onChange={(e) => updatePreferences({ snakeColors: preferences.snakeColors.map((c, j) => (j === i ? e.target.value : c)) })} />
+                {slots.length > 1 && (
+                  <button className={`${styles.btnSecondarySm} ml-auto`}
+                    onClick={() => { resetBoard(); setSlots((ss) => ss.filter((_, j) => j !== i)); }}>Remove</button>
+                )}
+              </div>
+              <ModelSelect
+                catalog={catalog.agents}
+                gridSize={gridSize - 2}
+                agent={slot.agent}
+                eps={slot.eps}
+                setAgent={setSlotField(i, "agent")}
+                setEps={setSlotField(i, "eps")}
+                seed={slot.seed}
+                // with a shared seed only the first slot asks for one
+                setSeed={sameSeed && i > 0 ? undefined : (v) => { cancelLoad(); setSlotField(i, "seed")(v); }}
+                resetBoard={resetBoard}
+                idPrefix={`slot${i}-`}
+              />
             </div>
-            {twoGrids ? (
-              <ModelSelect agent={agent2} eps={eps2} setAgent={setAgent2} setEps={setEps2} seed={seed2} setSeed={setSeed2} resetBoard={resetBoard} />
-            ) : (
-              <p className={styles.label}>Add a grid to enable the second agent</p>
-            )}
-          </div>
+          ))}
         </section>
 
+        {/* Error banner for failed game requests */}
+        {loadError && (
+          <div role="alert" className={styles.errorBanner}>
+            <span>Could not load the game: {loadError}</span>
+            <div className="flex gap-2">
+              <button className={styles.btnPrimarySm} onClick={() => runWhenLive()}>Retry</button>
+              <button className={styles.btnSlate} onClick={() => setLoadError(null)}>Dismiss</button>
+            </div>
+          </div>
+        )}
+
         {/* The grids themselves */}
-        <section className="flex items-end justify-around rounded-lg border border-black/10 bg-gray-400/70 p-2 mt-2 mb-2 shadow-lg">
-          <Grid gridSize={gridSize} timeStep={timeStep} gameStates={gameStates1} />
-          
-          {/* Loading message that displays over the grid */}
-          <p className={`absolute mb-30 bg-red-400/85 p-1 ${!loading && "hidden"}`}>Loading...</p>
-          
-          {twoGrids && <Grid gridSize={gridSize} timeStep={timeStep} gameStates={gameStates2} />}
+        <section className="flex flex-wrap items-end justify-around gap-2 rounded-lg border border-black/10 bg-gray-400/70 p-2 mt-2 mb-2 shadow-lg">
+          {slots.map((slot, i) => (
+            <Grid
+              key={slot.id}
+              gridSize={gridSize}
+              timeStep={timeStep}
+              gameStates={slot.states}
+              stepMs={500 / speed}
+              theme={slotThemes[i]}
+              overlays={preferences.overlays[i]}
+              onOverlaysChange={setSlotOverlays(i)}
+              heatmapScale={heatmapScale}
+              trailLength={preferences.trailLength}
+              violations={violations[i]}
+              label={`${slotLabel(i)}: ${agentName(slot.agent)}`}
+              color={slotColors[i]}
+            />
+          ))}
+
+          {/* Loading message that displays over the grid; screen readers get it from the status below */}
+          {loading && <p aria-hidden="true" className="absolute mb-30 bg-red-400/85 p-1">Loading...</p>}
         </section>
 
+        {/* Replays that break the rules of the game, e.g. from a buggy agent */}
+        <ReplayIssues
+          grids={slots.map((_, i) => ({ label: slotLabel(i), violations: violations[i] }))}
+          onSeek={(step) => { setPlaying(false); setTimeStep(step); }}
+        />
+
+        {/* Spoken playback updates */}
+        <p role="status" className="sr-only">{loading ? "Loading the game..." : announcement}</p>
+
         {/* Player controls */}
-        <section className="p-1">
+        <section id="player-controls" aria-label="Player controls" className="p-1">
           <div className="flex justify-center">
             <div className="flex flex-col items-center gap-2 rounded-2xl border bg-cyan-900/80 py-2 px-4 shadow-xl">
-              <button className={styles.btnPrimary} onClick={() => loadNewGame()}>Run new game</button>
+              <button
+                className={styles.btnPrimary}
+                disabled={(health.status === "unreachable" && needsServer && !queued) || (settingsIssue !== undefined && !queued)}
+                title={settingsIssue ?? (health.status === "unreachable" && needsServer ? "The backend is unreachable" : undefined)}
+                onClick={() => runWhenLive()}
+              >{queued ? "Waiting for server... (cancel)" : "Run new game"}</button>
               <div className="flex gap-2">
-                <button className={styles.btnSecondary} onClick={() => { setPlaying(false); setTimeStep((t) => (t > 0 ? t - 1 : t)); }}>Back</button>
-                {canStepForward ? (
-                  <button className={styles.btnSecondary} onClick={() => setPlaying((p) => !p)}>{playing ? "Pause" : "Play"}</button>
-                ) : (
-                  <button className={styles.btnPrimary} onClick={() => { setPlaying(false); setTimeStep(0); }}>Restart</button>
-                )}
+                <button className={styles.btnSecondary} aria-keyshortcuts="ArrowLeft"
+                  onClick={() => { setPlaying(false); setTimeStep((t) => (t > 0 ? t - 1 : t)); }}>Back</button>
+                {/* One button for all three states, so it keeps focus when the replay ends */}
+                <button
+                  className={canStepForward || playLoop ? styles.btnSecondary : styles.btnPrimary}
+                  aria-keyshortcuts="Space"
+                  onClick={() => {
+                    if (canStepForward || playLoop) setPlaying((p) => !p);
+                    else { setPlaying(false); setTimeStep(0); }
+                  }}
+                >{canStepForward || playLoop ? (playing ? "Pause" : "Play") : "Restart"}</button>
                 <button
                   className={styles.btnSecondary}
+                  aria-keyshortcuts="ArrowRight"
                   onClick={() => { setPlaying(false); setTimeStep((t) => (t < maxStep ? t + 1 : t)); }}
                 >Forward</button>
-                <button className={styles.btnSecondary} onClick={() => setSpeed((s) => (s === 4 ? 1 : s * 2))}>{speed}x Speed</button>
-                <button className={styles.btnSecondary} onClick={() => { resetBoard(); setTwoGrids((t) => !t); }}>{twoGrids ? "Remove" : "Add"} Grid</button>
+                <button className={styles.btnSecondary} disabled={maxStep < 0} title="Save the loaded slots as a PNG, GIF or WebM"
+                  onClick={exportSlots}>Export</button>
+                <button className={styles.btnSecondary} title="Copy a link to these settings and the current step" onClick={() => copyLink()}>
+                  {linkCopy === "copied" ? "Copied!" : linkCopy === "failed" ? "Copy failed" : "Copy link"}
+                </button>
+                {linkCopy === "failed" && (
+                  <input readOnly aria-label="Link to copy" className={`${styles.input} w-64`} value={window.location.href}
+                    onFocus={(e) => e.target.select()} />
+                )}
               </div>
+              <Timeline
+                step={timeStep}
+                maxStep={maxStep}
+                lanes={slots.map((_, i) => ({ label: slotLabel(i), events: events[i] }))}
+                loop={playLoop}
+                speed={speed}
+                onSeek={(step) => { setPlaying(false); setTimeStep(step); }}
+                onLoopChange={setLoop}
+                onSpeedChange={setSpeed}
+              />
+              <p className="text-[11px] text-white/70">
+                Space play/pause · ←/→ step · Shift+←/→ event · ↑/↓ speed · Home/End · 0–9 jump · [ ] loop · Esc clear loop
+              </p>
             </div>
           </div>
         </section>
         
+        {/* Human play on the local engine */}
+        <HumanPlayPanel
+          game={human}
+          defaultGridSize={gridSize - 2}
+          theme={boardTheme}
+          challenge={challenge}
+          onClearChallenge={() => setChallenge(null)}
+        />
+
+        {/* Batch runs over many seeds */}
+        <BenchmarkPanel
+          catalog={catalog.agents}
+          gridSizeOptions={gridSizeOptions}
+          defaultGridSize={gridSize}
+          serverLive={health.status === "live"}
+          slotCount={slots.length}
+          onReplay={replayResult}
+        />
+
+        {/* Charts over the history and the loaded grids */}
+        <AnalyticsPanel
+          results={tableRes}
+          grids={slots.map((slot, i) => ({ label: `${slotLabel(i)}: ${agentName(slot.agent)}`, color: slotColors[i], states: slot.states }))}
+        />
+
         {/* Results table */}
-        <section className={`${styles.card} mt-2 p-5`}>
+        <section id="history" aria-label="Simulation history" className={`${styles.card} mt-2 p-5`}>
           <div className="mb-4 flex items-center justify-between">
             <h3 className={styles.sectionTitle}>Simulation history</h3>
-            <span className="text-xs text-white/80">Newest first</span>
-          </div>
-          <div className="max-h-95 overflow-y-auto">
-            <table className="min-w-full mb-4 border border-black text-white">
-              <thead>
-                <tr className="divide-x bg-gray-200 text-xs uppercase tracking-wide text-black">
-                  <th className="px-4 py-3">Agent</th>
-                  <th className="px-4 py-3">Grid Size</th>
-                  <th className="px-4 py-3">Train Episodes</th>
-                  <th className="px-4 py-3">Move Count</th>
-                  <th className="px-4 py-3">Fruit Count</th>
-                  <th className="px-4 py-3">Final Length</th>
-                  <th className="px-4 py-3">Avg. Moves Per Fruit</th>
-                  <th className="px-4 py-3">Outcome</th>
-                  <th className="px-4 py-3">Replay?</th>
-                </tr>
-              </thead>
-              {/* Table rows */}
-              <tbody className="divide-y divide-white/5 bg-cyan-900/80">
-                {tableRes.map((res, i) => (
-                  <tr key={String(i)} className={`divide-x ${i % 2 ? "bg-slate-500/50" : ""}`}>
-                    <td className={styles.tableCell}>{res.agent}</td>
-                    <td className={styles.tableCell}>{res.gridSize}</td>
-                    <td className={styles.tableCell}>{res.train}</td>
-                    <td className={styles.tableCell}>{res.moveCount}</td>
-                    <td className={styles.tableCell}>{res.fruitCount}</td>
-                    <td className={styles.tableCell}>{res.finalLength}</td>
-                    <td className={styles.tableCell}>{res.avgMove}</td>
-                    <td className={styles.tableCell}>
-                      <span className={res.outcome === "Won" ? styles.outcomeWon : styles.outcomeLost}>
-                        {res.outcome}
-                      </span>
-                    </td>
-                    {/* Replay Buttons */}
-                    <td className={styles.tableCellLast}>
-                      <div className="flex gap-2">
-                        <button
-                          className={styles.btnPrimarySm}
-                          onClick={() => {
-                            setPlaying(false);
-                            if (gridSize !== res.replaySize) setGameStates2(res.replay);
-                            setGridSize(res.replaySize);
-                            setAgent1(res.agentCode);
-                            setEps1(res.train);
-                            setGameStates1(res.replay);
-                            setTimeStep(0);
-                          }}
-                        >Grid 1</button>
-                        <button
-                          className={styles.btnSlate}
-                          onClick={() => {
-                            setPlaying(false);
-                            if (gridSize !== res.replaySize) setGameStates1(res.replay);
-                            setGridSize(res.replaySize);
-                            setTwoGrids(true);
-                            setAgent2(res.agentCode);
-                            setEps2(res.train);
-                            setGameStates2(res.replay);
-                            setTimeStep(0);
-                          }}
-                        >Grid 2</button>
-                      </div>
-                    </td>
-                  </tr>
-                ))}
-              </tbody>
-            </table>
+            <div className="flex items-center gap-2">
+              {historyNotice && <span className="text-xs text-white">{historyNotice}</span>}
+              {savedRuns < tableRes.length
+                ? <span role="status" className="text-xs font-semibold text-amber-200"
+                    title="Export the history to keep the runs that do not fit in browser storage">
+                    Only {savedRuns} of {tableRes.length} runs fit in browser storage
+                  </span>
+                : <span className="text-xs text-white/80">{savedRuns} saved, up to {MAX_HISTORY_ENTRIES}</span>}
+              <button className={styles.btnSlate} onClick={() => importRef.current?.click()}>Import</button>
+              <button className={styles.btnSlate} onClick={exportHistory} disabled={tableRes.length === 0}>Export</button>
+              <button className={styles.btnSlate} onClick={clearHistory} disabled={tableRes.length === 0}>Clear all</button>
+              <input
+                ref={importRef}
+                type="file"
+                accept="application/json,.json"
+                className="hidden"
+                onChange={(e) => {
+                  const file = e.target.files?.[0];
+                  e.target.value = ""; // allow importing the same file twice
+                  if (file) importHistory(file);
+                }}
+              />
+            </div>
           </div>
+          <HistoryTable
+            results={tableRes}
+            slotCount={slots.length}
+            onReplay={replayResult}
+            onDelete={(ids) => setTableRes(t => t.filter((r) => !ids.includes(r.id)))}
+            onCompare={compareResults}
+            onRerun={rerunResult}
+            onPlay={playResult}
+            onExport={exportResult}
+          />
         </section>
       </main>
+
+      {exportSource && <ExportDialog source={exportSource} defaultSpeed={speed} onClose={() => setExportSource(null)} />}
     </div>
   );
 }
@@ -0,0 +1,44 @@
+import { describe, expect, it } from "vitest"
+import { describeBoard, describeCell, moveEvent, stepAnnouncement } from "./describe"
+import { diedGame, GRID_2, GRID_3, wonGame } from "../test/fixtures"
+
+describe("board descriptions", () => {
+  it("name what is on a cell, counting rows and columns from 1 inside the walls", () => {
+    const state = diedGame[4]; // snake [6, 7, 8], fruit 18
+    expect(describeCell(state, 0, GRID_3)).toBe("Row 0, column 0: wall");
+    expect(describeCell(state, 6, GRID_3)).toBe("Row 1, column 1: snake head");
+    expect(describeCell(state, 7, GRID_3)).toBe("Row 1, column 2: snake body, segment 2 of 3");
+    expect(describeCell(state, 8, GRID_3)).toBe("Row 1, column 3: snake tail");
+    expect(describeCell(state, 18, GRID_3)).toBe("Row 3, column 3: fruit");
+    expect(describeCell(state, 12, GRID_3)).toBe("Row 2, column 2: empty");
+  });
+
+  it("summarise the snake, the fruit and the outcome", () => {
+    expect(describeBoard(diedGame[4], GRID_3, 4))
+      .toBe("3x3 board at move 4: snake of length 3 with its head at row 1, column 1; fruit at row 3, column 3.");
+    expect(describeBoard(diedGame[7], GRID_3, 7)).toMatch(/The snake died\.$/);
+    expect(describeBoard(wonGame[3], GRID_2, 3)).not.toContain("fruit at");
+    expect(describeBoard(undefined, GRID_3, 0)).toBe("3x3 board, no game loaded.");
+  });
+});
+
+describe("move announcements", () => {
+  it("report fruit, wins and deaths but not plain moves", () => {
+    expect(moveEvent(diedGame, 0)).toBeUndefined();
+    expect(moveEvent(diedGame, 1)).toBe("ate fruit, length 2");
+    expect(moveEvent(diedGame, 2)).toBeUndefined();
+    expect(moveEvent(diedGame, 7)).toBe("died with length 3");
+    expect(moveEvent(wonGame, 3)).toBe("ate fruit and won with length 4");
+  });
+
+  it("only speak up for events during playback", () => {
+    const boards = [{ label: "Slot 1", states: diedGame }, { label: "Slot 2", states: wonGame }];
+    expect(stepAnnouncement(boards, 2, false)).toBe("Move 2: Slot 2: ate fruit, length 3");
+    expect(stepAnnouncement(boards, 5, false)).toBe("");
+  });
+
+  it("summarise every board when stepping through", () => {
+    const boards = [{ label: "Slot 1", states: diedGame }, { label: "Slot 2", states: wonGame }, { label: "Slot 3", states: [] }];
+    expect(stepAnnouncement(boards, 5, true)).toBe("Move 5. Slot 1: length 3. Slot 2: finished.");
+  });
+});
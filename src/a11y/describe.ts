@@ -0,0 +1,93 @@
+/**
+ * File: describe.ts
+ * Description: Text descriptions of boards and replays for screen readers:
+ * what is on a cell, where the snake and fruit are, and what happened on a move.
+ */
+import type { GameState } from "../types"
+
+/**
+ * The row and column of a cell, counted from 1 inside the walls.
+ * @param index a walled index
+ * @param gridSize a number N representing the size of an NxN grid, walls included
+ * @returns 1-based interior coordinates; 0 or N - 1 fall on a wall
+ */
+export function cellPosition(index: number, gridSize: number): { row: number, column: number } {
+  return { row: Math.floor(index / gridSize), column: index % gridSize };
+}
+
+const at = (index: number, gridSize: number) => {
+  const { row, column } = cellPosition(index, gridSize);
+  return `row ${row}, column ${column}`;
+};
+
+/**
+ * Describes one cell of the board.
+ * @param state the board, or undefined before a game is loaded
+ * @param index the walled index of the cell
+ * @param gridSize a number N representing the size of an NxN grid, walls included
+ * @returns e.g. "Row 2, column 3: snake body, segment 2 of 4"
+ */
+export function describeCell(state: GameState | undefined, index: number, gridSize: number): string {
+  const { row, column } = cellPosition(index, gridSize);
+  const place = `Row ${row}, column ${column}`;
+  if (row === 0 || column === 0 || row === gridSize - 1 || column === gridSize - 1) return `${place}: wall`;
+  if (!state) return `${place}: empty`;
+  const segment = state.snake.indexOf(index);
+  if (segment === 0) return `${place}: snake head`;
+  if (segment === state.snake.length - 1) return `${place}: snake tail`;
+  if (segment > 0) return `${place}: snake body, segment ${segment + 1} of ${state.snake.length}`;
+  if (index === state.fruit) return `${place}: fruit`;
+  return `${place}: empty`;
+}
+
+/**
+ * Summarises a board in one sentence.
+ * @param state the board, or undefined before a game is loaded
+ * @param gridSize a number N representing the size of an NxN grid, walls included
+ * @param step the move the board shows
+ * @returns e.g. "5x5 board at move 4: snake of length 3 with its head at row 1, column 1; fruit at row 3, column 3."
+ */
+export function describeBoard(state: GameState | undefined, gridSize: number, step: number): string {
+  const size = `${gridSize - 2}x${gridSize - 2} board`;
+  if (!state) return `${size}, no game loaded.`;
+  const parts = [`${size} at move ${step}: snake of length ${state.snake.length} with its head at ${at(state.snake[0], gridSize)}`];
+  if (state.fruit >= 0) parts.push(`fruit at ${at(state.fruit, gridSize)}`);
+  const outcome = state.won ? " The game is won." : state.died ? " The snake died." : "";
+  return `${parts.join("; ")}.${outcome}`;
+}
+
+/**
+ * What happened on a move, if anything worth announcing.
+ * @param states every state of the game
+ * @param step the move
+ * @returns e.g. "ate fruit, length 3" or "died", or undefined for a plain move
+ */
+export function moveEvent(states: GameState[], step: number): string | undefined {
+  const state = states[step];
+  if (!state || step === 0) return undefined;
+  const ate = state.snake.length > states[step - 1].snake.length;
+  if (state.won) return ate ? `ate fruit and won with length ${state.snake.length}` : "won";
+  if (state.died) return `died with length ${state.snake.length}`;
+  return ate ? `ate fruit, length ${state.snake.length}` : undefined;
+}
+
+/**
+ * The announcement for a replay step across several boards. During playback
+ * only fruit and outcomes are announced; when stepping, every board is summarised.
+ * @param boards the label and replay of every board
+ * @param step the shared replay step
+ * @param verbose whether to describe boards where nothing happened
+ * @returns the text to announce, or "" for nothing
+ */
+export function stepAnnouncement(boards: { label: string, states: GameState[] }[], step: number, verbose: boolean): string {
+  const loaded = boards.filter((b) => b.states.length > 0);
+  const lines = loaded.flatMap((b) => {
+    // Games that ended earlier stay on their final move
+    if (step >= b.states.length) return verbose ? [`${b.label}: finished`] : [];
+    const event = moveEvent(b.states, step);
+    if (event) return [`${b.label}: ${event}`];
+    return verbose ? [`${b.label}: length ${b.states[step].snake.length}`] : [];
+  });
+  if (lines.length === 0) return "";
+  return verbose ? `Move ${step}. ${lines.join(". ")}.` : `Move ${step}: ${lines.join("; ")}`;
+}
@@ -0,0 +1,21 @@
+/**
+ * File: agent.worker.ts
+ * Description: Web Worker that plays local agent games off the main thread.
+ * Receives a LocalGameRequest and answers with the game's states or an error.
+ */
+import { playLocalGame, type LocalGameRequest } from "./localAgents"
+import type { LocalGameResponse } from "./localClient"
+
+// The app is type-checked against the DOM library, so describe the worker scope by hand
+const scope = self as unknown as {
+  onmessage: ((e: MessageEvent<LocalGameRequest>) => void) | null,
+  postMessage: (message: LocalGameResponse) => void
+}
+
+scope.onmessage = (e) => {
+  try {
+    scope.postMessage({ states: playLocalGame(e.data) });
+  } catch (err) {
+    scope.postMessage({ error: err instanceof Error ? err.message : String(err) });
+  }
+};
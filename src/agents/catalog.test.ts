@@ -0,0 +1,13 @@
+import { describe, expect, it } from "vitest"
+import { bundledCatalog, catalogGridSizes } from "./catalog"
+
+describe("catalogGridSizes", () => {
+  it("offers the sizes local agents play between the backend sizes", () => {
+    expect(catalogGridSizes(bundledCatalog)).toEqual([3, 4, 5, 6, 7]);
+  });
+
+  it("offers every local size when no backend agent is available", () => {
+    const local = bundledCatalog.filter((a) => a.local);
+    expect(catalogGridSizes(local)).toEqual([...new Set(local.flatMap((a) => a.gridSizes))].sort((a, b) => a - b));
+  });
+});
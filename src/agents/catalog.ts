@@ -0,0 +1,108 @@
+/**
+ * File: catalog.ts
+ * Description: The agent catalog: which agents exist, their display names,
+ * training options, supported board sizes and availability. The backend's
+ * `/agents` list is used when it answers; the bundled list below otherwise.
+ * Local agents are always appended.
+ */
+import type { AgentInfo } from "../types"
+import { localAgents } from "./localAgents"
+
+// Agent code of games played by hand on the local engine
+export const HUMAN_AGENT = "human"
+
+/** Interior board sizes the app can show at all, 3x3 to 20x20 */
+export const BOARD_SIZE_RANGE = Array.from({ length: 18 }, (_, i) => i + 3)
+
+/** The backend agents as of the last release, used until `/agents` answers */
+export const BUNDLED_AGENTS: AgentInfo[] = [
+  { code: "a*", name: "A*", trainingOptions: [], gridSizes: [3, 5, 7], available: true },
+  {
+    code: "ql", name: "Q-Learning", trainingOptions: ["50k", "75k", "100k"], gridSizes: [3, 5, 7], available: false,
+    unavailableReason: "The tabular model is too large for the server"
+  },
+  { code: "apx-ql", name: "Approx. QL", trainingOptions: ["50k", "75k", "100k"], gridSizes: [3, 5, 7], available: true },
+  { code: "deep-ql", name: "Deep QL", trainingOptions: ["1k", "3k", "5k"], gridSizes: [3, 5, 7], available: true }
+]
+
+/**
+ * Adds the local agents to a list of backend agents.
+ * @param agents the backend agents
+ * @returns the full catalog
+ */
+export function withLocalAgents(agents: AgentInfo[]): AgentInfo[] {
+  const local = localAgents.map((a): AgentInfo => ({
+    code: a.code,
+    name: a.name,
+    trainingOptions: [],
+    gridSizes: BOARD_SIZE_RANGE.filter(a.supports),
+    available: true,
+    local: true
+  }));
+  return [...agents.filter((a) => !local.some((l) => l.code === a.code)), ...local];
+}
+
+export const bundledCatalog = withLocalAgents(BUNDLED_AGENTS)
+
+/**
+ * Looks up an agent.
+ * @param catalog the agent catalog
+ * @param code the agent code
+ * @returns the agent, or undefined for unknown codes
+ */
+export function findAgent(catalog: AgentInfo[], code: string): AgentInfo | undefined {
+  return catalog.find((a) => a.code === code);
+}
+
+/**
+ * The board sizes to offer: every size an available backend agent can play, and
+ * the sizes local agents can play between the smallest and largest of those, so
+ * an agent limited to even boards can still be picked.
+ * @param catalog the agent catalog
+ * @returns interior board sizes, ascending
+ */
+export function catalogGridSizes(catalog: AgentInfo[]): number[] {
+  const available = catalog.filter((a) => a.available);
+  const backend = new Set(available.filter((a) => !a.local).flatMap((a) => a.gridSizes));
+  const min = Math.min(...backend);
+  const max = Math.max(...backend);
+  const local = available.filter((a) => a.local).flatMap((a) => a.gridSizes)
+    .filter((n) => backend.size === 0 || (n >= min && n <= max));
+  return [...new Set([...backend, ...local])].sort((a, b) => a - b);
+}
+
+/**
+ * Why an agent cannot be selected, if it cannot.
+ * @param agent the agent
+ * @param gridSize the interior board size N it would play on, if known
+ * @returns a reason to show, or undefined when the agent can be used
+ */
+export function agentIssue(agent: AgentInfo, gridSize?: number): string | undefined {
+  if (!agent.available) return agent.unavailableReason ?? "Currently unavailable";
+  if (gridSize !== undefined && !agent.gridSizes.includes(gridSize)) return `Cannot play a ${gridSize}x${gridSize} board`;
+  return undefined;
+}
+
+// Display names of every agent seen so far, so rows of agents that have since
+// left the catalog keep their names
+const names = new Map<string, string>([
+  ...bundledCatalog.map((a): [string, string] => [a.code, a.name]),
+  [HUMAN_AGENT, "Human"]
+]);
+
+/**
+ * Records the display names of a catalog for agentName.
+ * @param catalog the agent catalog
+ */
+export function rememberAgentNames(catalog: AgentInfo[]): void {
+  catalog.forEach((a) => names.set(a.code, a.name));
+}
+
+/**
+ * The display name of an agent.
+ * @param code the agent code
+ * @returns the name, or the code itself for agents never seen in a catalog
+ */
+export function agentName(code: string): string {
+  return names.get(code) ?? code;
+}
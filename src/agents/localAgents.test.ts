@@ -0,0 +1,57 @@
+import { describe, expect, it } from "vitest"
+import { localAgents, playLocalGame } from "./localAgents"
+import { createSnakeEngine, moveCell } from "../engine/engine"
+import { validateReplay } from "../replay/validate"
+
+const outcome = (agent: string, gridSize: number, seed: number) => {
+  const states = playLocalGame({ agent, gridSize, seed });
+  return { states, last: states[states.length - 1] };
+};
+
+describe("local agents", () => {
+  it("never ask to turn back into their neck", () => {
+    for (const code of ["local:a*", "local:greedy"]) {
+      const policy = localAgents.find((a) => a.code === code)!.create(7);
+      for (let seed = 0; seed < 10; seed++) {
+        const engine = createSnakeEngine({ gridSize: 7, seed });
+        while (!engine.finished && engine.states.length < 500) {
+          const direction = policy(engine.state, engine.heading);
+          const { snake } = engine.state;
+          if (snake.length > 1) expect(moveCell(snake[0], direction, 7)).not.toBe(snake[1]);
+          engine.step(direction);
+        }
+      }
+    }
+  });
+
+  it("keeps A* alive after eating its first fruit at length 2", () => {
+    const { states, last } = outcome("local:a*", 7, 3);
+    expect(states.length).toBeGreaterThan(16);
+    expect(last.snake.length).toBeGreaterThan(3);
+  });
+
+  it("lets A* win some games and rarely die early", () => {
+    let wins = 0;
+    for (let seed = 0; seed < 20; seed++) {
+      const { states, last } = outcome("local:a*", 5, seed);
+      if (last.won) wins++;
+      if (last.died) expect(states.length).toBeGreaterThan(16);
+      expect(validateReplay(states, 7)).toEqual([]);
+    }
+    expect(wins).toBeGreaterThan(0);
+  });
+
+  it("always wins with the Hamiltonian cycle on even boards", () => {
+    for (const seed of [1, 2, 3]) expect(outcome("local:hamiltonian", 4, seed).last.won).toBe(true);
+  });
+
+  it("is deterministic per seed", () => {
+    expect(playLocalGame({ agent: "local:greedy", gridSize: 5, seed: 9 }))
+      .toEqual(playLocalGame({ agent: "local:greedy", gridSize: 5, seed: 9 }));
+  });
+
+  it("rejects unknown agents and unsupported sizes", () => {
+    expect(() => playLocalGame({ agent: "local:nope", gridSize: 5, seed: 1 })).toThrow(/Unknown local agent/);
+    expect(() => playLocalGame({ agent: "local:hamiltonian", gridSize: 5, seed: 1 })).toThrow(/5x5/);
+  });
+});
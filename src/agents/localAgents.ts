@@ -0,0 +1,246 @@
+/**
+ * File: localAgents.ts
+ * Description: Client-side reference agents that play on the local snake
+ * engine. Each agent is a factory for a per-game policy, so new agents can be
+ * added to `localAgents` without touching the worker or the UI.
+ */
+import type { GameState } from "../types"
+import { createSnakeEngine, isWallCell, moveCell, type Direction, type EngineOptions } from "../engine/engine"
+
+/** Picks the next move from the current board and the direction of the last move */
+export type Policy = (state: GameState, heading: Direction | null) => Direction
+
+export type LocalAgent = {
+  /** Agent code; always starts with "local:" so it never clashes with backend agents */
+  code: string,
+  name: string,
+  description: string,
+  /**
+   * Whether the agent can play a board size.
+   * @param gridSize the interior board size N (without walls)
+   */
+  supports: (gridSize: number) => boolean,
+  /**
+   * Creates the policy for one game; agents may precompute per board here.
+   * @param gridSize the interior board size N (without walls)
+   */
+  create: (gridSize: number) => Policy
+}
+
+const directions: Direction[] = ["up", "right", "down", "left"]
+
+const manhattan = (a: number, b: number, width: number) =>
+  Math.abs(Math.floor(a / width) - Math.floor(b / width)) + Math.abs((a % width) - (b % width));
+
+// Cells the head cannot move into next: the body without the tail, which moves away,
+// and the neck even when it is the tail, since the engine ignores a turn back into it
+function blockedCells(snake: number[]): Set<number> {
+  const blocked = new Set(snake.slice(0, -1));
+  if (snake.length > 1) blocked.add(snake[1]);
+  return blocked;
+}
+
+// Moves that do not hit a wall or the body; the tail moves away unless the snake eats
+function safeMoves(state: GameState, gridSize: number): { direction: Direction, cell: number }[] {
+  const { snake, fruit } = state;
+  const blocked = blockedCells(snake);
+  return directions
+    .map((direction) => ({ direction, cell: moveCell(snake[0], direction, gridSize) }))
+    .filter(({ cell }) => !isWallCell(cell, gridSize) && !blocked.has(cell)
+      && !(cell === fruit && cell === snake[snake.length - 1]));
+}
+
+// Number of cells reachable from a cell without crossing the given blocked cells
+function reachable(from: number, blocked: Set<number>, gridSize: number): number {
+  const seen = new Set([from]);
+  const queue = [from];
+  for (let i = 0; i < queue.length; i++) {
+    for (const d of directions) {
+      const next = moveCell(queue[i], d, gridSize);
+      if (!seen.has(next) && !blocked.has(next) && !isWallCell(next, gridSize)) {
+        seen.add(next);
+        queue.push(next);
+      }
+    }
+  }
+  return seen.size;
+}
+
+/**
+ * A* search over the board with a Manhattan heuristic.
+ * @param start the walled index to start from
+ * @param goal the walled index to reach
+ * @param blocked cells that cannot be entered
+ * @param gridSize the interior board size N (without walls)
+ * @returns the cells of a shortest path after the start, ending at the goal, or undefined when there is none
+ */
+export function aStarPath(start: number, goal: number, blocked: Set<number>, gridSize: number): number[] | undefined {
+  const width = gridSize + 2;
+  const cost = new Map<number, number>([[start, 0]]);
+  const parent = new Map<number, number>();
+  const open = [start];
+  while (open.length > 0) {
+    // Boards are small, so a linear scan for the best open cell is fine
+    let best = 0;
+    const score = (i: number) => cost.get(open[i])! + manhattan(open[i], goal, width);
+    for (let i = 1; i < open.length; i++) if (score(i) < score(best)) best = i;
+    const cell = open.splice(best, 1)[0];
+    if (cell === goal) {
+      const path: number[] = [];
+      for (let c = goal; c !== start; c = parent.get(c)!) path.unshift(c);
+      return path.length > 0 ? path : undefined;
+    }
+    for (const d of directions) {
+      const next = moveCell(cell, d, gridSize);
+      if (isWallCell(next, gridSize) || (blocked.has(next) && next !== goal)) continue;
+      const nextCost = cost.get(cell)! + 1;
+      if (nextCost < (cost.get(next) ?? Infinity)) {
+        cost.set(next, nextCost);
+        parent.set(next, cell);
+        if (!open.includes(next)) open.push(next);
+      }
+    }
+  }
+  return undefined;
+}
+
+/**
+ * The first move of a shortest A* path.
+ * @param start the walled index to start from
+ * @param goal the walled index to reach
+ * @param blocked cells that cannot be entered
+ * @param gridSize the interior board size N (without walls)
+ * @returns the first direction of a shortest path, or undefined when there is none
+ */
+export function aStarFirstMove(start: number, goal: number, blocked: Set<number>, gridSize: number): Direction | undefined {
+  const path = aStarPath(start, goal, blocked, gridSize);
+  return path ? directionTo(start, path[0], gridSize) : undefined;
+}
+
+// Whether the snake can still get out after following a path to the fruit: the
+// board is full, its tail stays reachable, or there is room for its whole body
+function safeAfterEating(snake: number[], path: number[], gridSize: number): boolean {
+  const grown = [...[...path].reverse(), ...snake].slice(0, snake.length + 1);
+  if (grown.length === gridSize * gridSize) return true;
+  const blocked = blockedCells(grown);
+  const tail = grown[grown.length - 1];
+  if (grown.length > 2 && aStarPath(grown[0], tail, blocked, gridSize)) return true;
+  return reachable(grown[0], blocked, gridSize) - 1 >= grown.length;
+}
+
+/**
+ * The cells of an NxN board in Hamiltonian cycle order: along the top row,
+ * zigzag through the other rows without the first column, then back up it.
+ * Such a cycle only exists when N is even.
+ * @param gridSize the interior board size N (without walls), even
+ * @returns walled indices, each followed by its successor on the cycle
+ */
+export function hamiltonianCycle(gridSize: number): number[] {
+  const width = gridSize + 2;
+  const at = (row: number, col: number) => (row + 1) * width + col + 1;
+  const cycle: number[] = [];
+  for (let c = 0; c < gridSize; c++) cycle.push(at(0, c));
+  for (let r = 1; r < gridSize; r++) {
+    for (let k = 1; k < gridSize; k++) cycle.push(at(r, r % 2 === 1 ? gridSize - k : k));
+  }
+  for (let r = gridSize - 1; r >= 1; r--) cycle.push(at(r, 0));
+  return cycle;
+}
+
+// The direction from one cell to a neighbouring one
+function directionTo(from: number, to: number, gridSize: number): Direction {
+  return directions.find((d) => moveCell(from, d, gridSize) === to) ?? "up";
+}
+
+// When nothing is safe, keep going; the engine will end the game
+const fallback = (heading: Direction | null): Direction => heading ?? "up";
+
+export const localAgents: LocalAgent[] = [
+  {
+    code: "local:a*",
+    name: "A* (local)",
+    description: "Shortest safe path to the fruit; follows its tail when there is none, then the roomiest move",
+    supports: (n) => n >= 2,
+    create: (gridSize) => (state, heading) => {
+      const { snake, fruit } = state;
+      const body = blockedCells(snake);
+      const toFruit = fruit >= 0 ? aStarPath(snake[0], fruit, body, gridSize) : undefined;
+      if (toFruit && safeAfterEating(snake, toFruit, gridSize)) return directionTo(snake[0], toFruit[0], gridSize);
+      const safe = safeMoves(state, gridSize);
+      const tail = snake[snake.length - 1];
+      const toTail = snake.length > 2 ? aStarFirstMove(snake[0], tail, body, gridSize) : undefined;
+      if (toTail && safe.some((m) => m.direction === toTail)) return toTail;
+      if (safe.length === 0) return fallback(heading);
+      return safe.reduce((a, b) => (reachable(b.cell, body, gridSize) > reachable(a.cell, body, gridSize) ? b : a)).direction;
+    }
+  },
+  {
+    code: "local:greedy",
+    name: "Greedy (local)",
+    description: "Steps towards the fruit, avoiding moves that leave less room than its length",
+    supports: (n) => n >= 2,
+    create: (gridSize) => (state, heading) => {
+      const width = gridSize + 2;
+      const body = blockedCells(state.snake);
+      const safe = safeMoves(state, gridSize);
+      if (safe.length === 0) return fallback(heading);
+      const roomy = safe.filter((m) => reachable(m.cell, body, gridSize) >= state.snake.length);
+      const options = roomy.length > 0 ? roomy : safe;
+      return options.reduce((a, b) =>
+        (manhattan(b.cell, state.fruit, width) < manhattan(a.cell, state.fruit, width) ? b : a)).direction;
+    }
+  },
+  {
+    code: "local:hamiltonian",
+    name: "Hamiltonian cycle (local)",
+    description: "Follows a fixed cycle through every cell; slow but always wins on even boards",
+    supports: (n) => n >= 2 && n % 2 === 0,
+    create: (gridSize) => {
+      const cycle = hamiltonianCycle(gridSize);
+      const next = new Map(cycle.map((cell, i) => [cell, cycle[(i + 1) % cycle.length]]));
+      return (state) => directionTo(state.snake[0], next.get(state.snake[0])!, gridSize);
+    }
+  }
+]
+
+/**
+ * Whether an agent code belongs to a client-side agent.
+ * @param code the agent code
+ * @returns true for agents in `localAgents`
+ */
+export function isLocalAgent(code: string): boolean {
+  return localAgents.some((a) => a.code === code);
+}
+
+export type LocalGameRequest = Pick<EngineOptions, "start" | "fruits"> & {
+  agent: string,
+  /** The interior board size N (without walls) */
+  gridSize: number,
+  seed: number
+}
+
+/**
+ * Plays a full game with a local agent.
+ * @param request the agent, board, seed and optional recorded fruit to play against
+ * @returns every state of the game, starting with the initial board
+ */
+export function playLocalGame(request: LocalGameRequest): GameState[] {
+  const agent = localAgents.find((a) => a.code === request.agent);
+  if (!agent) throw new Error(`Unknown local agent "${request.agent}"`);
+  if (!agent.supports(request.gridSize)) {
+    throw new Error(`${agent.name} cannot play a ${request.gridSize}x${request.gridSize} board`);
+  }
+  const engine = createSnakeEngine(request);
+  const policy = agent.create(request.gridSize);
+  const cells = request.gridSize * request.gridSize;
+  const maxMoves = cells * cells * 2; // enough for the Hamiltonian cycle to fill the board
+
+  while (!engine.finished && engine.states.length <= maxMoves) {
+    engine.step(policy(engine.state, engine.heading));
+  }
+  if (!engine.finished) {
+    // Ran out of moves without winning; treat as starved, like the mock backend
+    engine.states[engine.states.length - 1] = { ...engine.state, died: true };
+  }
+  return engine.states;
+}
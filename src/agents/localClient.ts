@@ -0,0 +1,60 @@
+/**
+ * File: localClient.ts
+ * Description: Runs local agent games in a Web Worker and returns them in the
+ * same shape as a backend simulation, so both can be handled alike.
+ */
+import type { GameState } from "../types"
+import { ApiError, type RequestOptions, type SimulateResult } from "../api/client"
+import { playLocalGame, type LocalGameRequest } from "./localAgents"
+
+export type LocalGameResponse = { states: GameState[] } | { error: string }
+
+/**
+ * Plays a game with a local agent in a dedicated worker, which is terminated
+ * when the game is done or the signal aborts. Falls back to the main thread
+ * where workers are unavailable.
+ * @param request the agent, board, seed and optional recorded fruit to play against
+ * @param options an optional abort signal
+ * @returns the states and metadata of the game
+ */
+export function runLocalAgent(request: LocalGameRequest, options: Pick<RequestOptions, "signal"> = {}): Promise<SimulateResult> {
+  const { signal } = options;
+  const started = performance.now();
+  const meta = () => ({
+    source: "local worker",
+    durationMs: Math.round(performance.now() - started),
+    response: { matchedFruit: request.fruits !== undefined }
+  });
+
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) return reject(new ApiError("aborted", "Local agent run was cancelled"));
+    if (typeof Worker === "undefined") {
+      try {
+        return resolve({ states: playLocalGame(request), meta: meta() });
+      } catch (err) {
+        return reject(err);
+      }
+    }
+
+    const worker = new Worker(new URL("./agent.worker.ts", import.meta.url), { type: "module" });
+    const finish = () => {
+      worker.terminate();
+      signal?.removeEventListener("abort", onAbort);
+    };
+    const onAbort = () => {
+      finish();
+      reject(new ApiError("aborted", "Local agent run was cancelled"));
+    };
+    worker.onmessage = (e: MessageEvent<LocalGameResponse>) => {
+      finish();
+      if ("error" in e.data) reject(new Error(e.data.error));
+      else resolve({ states: e.data.states, meta: meta() });
+    };
+    worker.onerror = (e) => {
+      finish();
+      reject(new Error(`Local agent failed: ${e.message}`));
+    };
+    signal?.addEventListener("abort", onAbort, { once: true });
+    worker.postMessage(request);
+  });
+}
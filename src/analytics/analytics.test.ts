@@ -0,0 +1,57 @@
+import { describe, expect, it } from "vitest"
+import { histogram, lengthOverTime, movesPerFruit, trainingEpisodes, winRateByAgent } from "./analytics"
+import { createTableResult } from "../results"
+import { diedGame, GRID_2, GRID_3, wonGame } from "../test/fixtures"
+
+describe("trainingEpisodes", () => {
+  it("reads thousands and untrained agents", () => {
+    expect(trainingEpisodes("5k")).toBe(5000);
+    expect(trainingEpisodes("1.5K")).toBe(1500);
+    expect(trainingEpisodes("500")).toBe(500);
+    expect(trainingEpisodes("N/A")).toBe(0);
+  });
+});
+
+describe("winRateByAgent", () => {
+  it("groups by agent and training, ordered by agent then episodes", () => {
+    const results = [
+      createTableResult("deep-ql", "5k", GRID_2, wonGame, "1"),
+      createTableResult("deep-ql", "500", GRID_3, diedGame, "2"),
+      createTableResult("a*", "N/A", GRID_2, wonGame, "3"),
+      createTableResult("a*", "N/A", GRID_3, diedGame, "4"),
+      createTableResult("deep-ql", "5k", GRID_3, diedGame, "5")
+    ];
+    expect(winRateByAgent(results)).toEqual([
+      { agent: "A*", train: "N/A", runs: 2, wins: 1, winRate: 0.5 },
+      { agent: "Deep QL", train: "500", runs: 1, wins: 0, winRate: 0 },
+      { agent: "Deep QL", train: "5k", runs: 2, wins: 1, winRate: 0.5 }
+    ]);
+  });
+});
+
+describe("movesPerFruit", () => {
+  it("skips runs that ate nothing", () => {
+    const starved = createTableResult("a*", "N/A", GRID_3, [{ snake: [12], fruit: 13, won: false, died: true }], "1");
+    expect(movesPerFruit([createTableResult("a*", "N/A", GRID_3, diedGame, "2"), starved])).toEqual([3.5]);
+  });
+});
+
+describe("histogram", () => {
+  it("spreads values over equal bins, with the maximum in the last one", () => {
+    const bins = histogram([0, 1, 2, 3, 4], 4);
+    expect(bins.map((b) => b.count)).toEqual([1, 1, 1, 2]);
+    expect(bins[0]).toEqual({ from: 0, to: 1, count: 1 });
+    expect(bins[3].to).toBe(4);
+  });
+
+  it("puts equal values in the first bin and has no bins without values", () => {
+    expect(histogram([2, 2, 2], 3).map((b) => b.count)).toEqual([3, 0, 0]);
+    expect(histogram([])).toEqual([]);
+  });
+});
+
+describe("lengthOverTime", () => {
+  it("reads the snake length at every step", () => {
+    expect(lengthOverTime(diedGame)).toEqual([1, 2, 2, 2, 3, 3, 3, 3]);
+  });
+});
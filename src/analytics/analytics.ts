@@ -0,0 +1,85 @@
+/**
+ * File: analytics.ts
+ * Description: Derives chart data from the simulation history and replays.
+ */
+import type { GameState, TableResult } from "../types"
+
+export type WinRateGroup = {
+  agent: string,
+  train: string,
+  runs: number,
+  wins: number,
+  winRate: number
+}
+
+export type HistogramBin = {
+  from: number,
+  to: number,
+  count: number
+}
+
+/**
+ * Converts a training label such as "5k" or "N/A" into an episode count.
+ * @param train the training amount shown in the history table
+ * @returns the number of episodes, or 0 when the agent is not trained
+ */
+export function trainingEpisodes(train: string): number {
+  const n = parseFloat(train);
+  if (Number.isNaN(n)) return 0;
+  return train.trim().toLowerCase().endsWith("k") ? n * 1000 : n;
+}
+
+/**
+ * Groups runs by agent and training amount and computes each group's win rate.
+ * @param results the simulation history
+ * @returns one entry per (agent, training) pair, ordered by agent then training
+ */
+export function winRateByAgent(results: TableResult[]): WinRateGroup[] {
+  const groups = new Map<string, WinRateGroup>();
+  for (const r of results) {
+    const key = `${r.agent}|${r.train}`;
+    const group = groups.get(key) ?? { agent: r.agent, train: r.train, runs: 0, wins: 0, winRate: 0 };
+    group.runs++;
+    if (r.outcome === "Won") group.wins++;
+    group.winRate = group.wins / group.runs;
+    groups.set(key, group);
+  }
+  return [...groups.values()].sort((a, b) =>
+    a.agent.localeCompare(b.agent) || trainingEpisodes(a.train) - trainingEpisodes(b.train));
+}
+
+/**
+ * Moves per fruit for every run that ate at least one fruit.
+ * @param results the simulation history
+ * @returns one value per qualifying run
+ */
+export function movesPerFruit(results: TableResult[]): number[] {
+  return results.filter((r) => r.fruitCount > 0).map((r) => r.moveCount / r.fruitCount);
+}
+
+/**
+ * Buckets values into equal-width bins spanning their range.
+ * @param values the samples
+ * @param binCount the number of bins
+ * @returns the bins in ascending order, or none when there are no samples
+ */
+export function histogram(values: number[], binCount = 10): HistogramBin[] {
+  if (values.length === 0) return [];
+  const min = Math.min(...values);
+  const max = Math.max(...values);
+  const width = (max - min) / binCount || 1;
+  const bins = Array.from({ length: binCount }, (_, i) => ({ from: min + i * width, to: min + (i + 1) * width, count: 0 }));
+  for (const v of values) {
+    bins[Math.min(binCount - 1, Math.floor((v - min) / width))].count++;
+  }
+  return bins;
+}
+
+/**
+ * The snake's length at every step of a replay.
+ * @param replay the game states of one run
+ * @returns the length per step
+ */
+export function lengthOverTime(replay: GameState[]): number[] {
+  return replay.map((s) => s.snake.length);
+}
@@ -0,0 +1,93 @@
+import { describe, expect, it, vi } from "vitest"
+import { ApiError, createApiClient, parseAgentsResponse, parseSimulateResponse } from "./client"
+import { jsonResponse, simulateResponse } from "../test/mockFetch"
+import { diedGame } from "../test/fixtures"
+
+const params = { agent: "a*", eps: "N/A", gridSize: 3, seed: "42" };
+
+// A client whose fetch answers every request with the given handler
+function clientWith(handler: typeof fetch, timeoutMs = 1000) {
+  const fetch = vi.fn(handler);
+  return { client: createApiClient({ baseUrl: "http://backend", timeoutMs, fetch }), fetch };
+}
+
+// The error a promise rejects with
+async function failure(promise: Promise<unknown>): Promise<ApiError> {
+  const err = await promise.then(() => undefined, (e: unknown) => e);
+  expect(err).toBeInstanceOf(ApiError);
+  return err as ApiError;
+}
+
+describe("api client", () => {
+  it("posts the simulation parameters and returns the states with the rest of the body as metadata", async () => {
+    const { client, fetch } = clientWith(async () => jsonResponse({ states: diedGame, version: "1.2" }));
+    const result = await client.simulate(params);
+    expect(result.states).toEqual(diedGame);
+    expect(result.meta).toMatchObject({ source: "http://backend", response: { version: "1.2" } });
+    const [url, init] = fetch.mock.calls[0];
+    expect(url).toBe("http://backend/simulate");
+    expect(JSON.parse(String(init?.body))).toEqual({ agent: "a*", eps: "N/A", grid_size: 3, seed: "42" });
+  });
+
+  it("reports HTTP errors with their status", async () => {
+    const { client } = clientWith(async () => new Response("", { status: 502, statusText: "Bad Gateway" }));
+    const err = await failure(client.simulate(params));
+    expect(err).toMatchObject({ kind: "http", status: 502, message: "Backend responded with 502 Bad Gateway" });
+  });
+
+  it("reports network failures", async () => {
+    const { client } = clientWith(async () => { throw new TypeError("Failed to fetch"); });
+    expect(await failure(client.ping())).toMatchObject({ kind: "network" });
+  });
+
+  it("reports bodies that are not JSON", async () => {
+    const { client } = clientWith(async () => new Response("<html>", { status: 200 }));
+    expect(await failure(client.simulate(params))).toMatchObject({ kind: "invalid-response" });
+  });
+
+  it("times out and can be cancelled", async () => {
+    const hang: typeof fetch = (_input, init) => new Promise((_, reject) =>
+      init?.signal?.addEventListener("abort", () => reject(new DOMException("aborted", "AbortError"))));
+    const { client } = clientWith(hang, 20);
+    expect(await failure(client.simulate(params))).toMatchObject({ kind: "timeout" });
+
+    const controller = new AbortController();
+    const pending = client.simulate(params, { signal: controller.signal, timeoutMs: 1000 });
+    controller.abort();
+    expect(await failure(pending)).toMatchObject({ kind: "aborted" });
+  });
+
+  it("reads the agent catalog", async () => {
+    const { client } = clientWith(async () => jsonResponse({
+      agents: [{ code: "deep-ql", name: "Deep QL", training: ["1k"], grid_sizes: [5], available: false, reason: "Retraining" }]
+    }));
+    expect(await client.agents()).toEqual([
+      { code: "deep-ql", name: "Deep QL", trainingOptions: ["1k"], gridSizes: [5], available: false, unavailableReason: "Retraining" }
+    ]);
+  });
+});
+
+describe("response validation", () => {
+  it("accepts well-formed states", async () => {
+    expect(parseSimulateResponse(await simulateResponse(diedGame).json())).toEqual(diedGame);
+  });
+
+  it("rejects missing, empty and malformed states", () => {
+    expect(() => parseSimulateResponse({})).toThrow("Response did not contain any game states");
+    expect(() => parseSimulateResponse({ states: [] })).toThrow("Response did not contain any game states");
+    expect(() => parseSimulateResponse({ states: [diedGame[0], { ...diedGame[1], fruit: 1.5 }] }))
+      .toThrow("Malformed game state at step 1");
+    expect(() => parseSimulateResponse({ states: [{ ...diedGame[0], snake: [] }] })).toThrow("Malformed game state at step 0");
+    expect(() => parseSimulateResponse({ states: [{ ...diedGame[0], snake: [-1] }] })).toThrow("Malformed game state at step 0");
+  });
+
+  it("rejects malformed agents", () => {
+    expect(() => parseAgentsResponse({ agents: [{ code: "x", name: "X", training: [], grid_sizes: [3] }] }))
+      .toThrow("Malformed agent at index 0");
+    for (const size of [0, -3, 2.5]) {
+      expect(() => parseAgentsResponse({ agents: [{ code: "x", name: "X", training: [], grid_sizes: [3, size], available: true }] }))
+        .toThrow("Malformed agent at index 0");
+    }
+    expect(() => parseAgentsResponse([])).toThrow("Response did not contain an agent list");
+  });
+});
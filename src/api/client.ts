@@ -0,0 +1,200 @@
+/**
+ * File: client.ts
+ * Description: Typed client for the simulation backend. Handles timeouts,
+ * cancellation and runtime validation of the returned game states.
+ */
+import type { AgentInfo, GameState, RunMeta } from "../types"
+import { readApiConfig } from "./config"
+import { createMockFetch } from "./mockBackend"
+
+export type ApiErrorKind = "network" | "timeout" | "aborted" | "http" | "invalid-response"
+
+/**
+ * The only error type thrown by the API client. `kind` tells callers whether
+ * the request is worth retrying.
+ */
+export class ApiError extends Error {
+  readonly kind: ApiErrorKind;
+  readonly status?: number;
+
+  constructor(kind: ApiErrorKind, message: string, status?: number) {
+    super(message);
+    this.name = "ApiError";
+    this.kind = kind;
+    this.status = status;
+  }
+}
+
+export type SimulateParams = {
+  agent: string,
+  eps: string,
+  gridSize: number,
+  seed: string
+}
+
+export type SimulateResult = {
+  states: GameState[],
+  meta: RunMeta
+}
+
+export type RequestOptions = {
+  signal?: AbortSignal,
+  timeoutMs?: number
+}
+
+export type ApiClient = {
+  simulate: (params: SimulateParams, options?: RequestOptions) => Promise<SimulateResult>,
+  ping: (options?: RequestOptions) => Promise<void>,
+  /** The backend's agent catalog (`GET /agents`) */
+  agents: (options?: RequestOptions) => Promise<AgentInfo[]>
+}
+
+export type ApiClientOptions = {
+  baseUrl: string,
+  timeoutMs: number,
+  fetch?: typeof fetch
+}
+
+const isIndexList = (value: unknown): value is number[] =>
+  Array.isArray(value) && value.every((n) => Number.isInteger(n) && n >= 0);
+
+const isSizeList = (value: unknown): value is number[] =>
+  Array.isArray(value) && value.every((n) => Number.isInteger(n) && n > 0);
+
+/**
+ * Runtime check for a single game state.
+ * @param value any decoded JSON value
+ * @returns whether the value has the shape of a GameState
+ */
+export function isGameState(value: unknown): value is GameState {
+  const s = value as Partial<Record<keyof GameState, unknown>> | null;
+  return !!s && isIndexList(s.snake) && s.snake.length > 0 && Number.isInteger(s.fruit)
+    && typeof s.won === "boolean" && typeof s.died === "boolean";
+}
+
+/**
+ * Checks that a decoded `/simulate` response body holds a non-empty list of
+ * well-formed game states.
+ * @param data the parsed JSON body
+ * @returns the game states contained in the body
+ */
+export function parseSimulateResponse(data: unknown): GameState[] {
+  const states = (data as { states?: unknown } | null)?.states;
+  if (!Array.isArray(states) || states.length === 0) {
+    throw new ApiError("invalid-response", "Response did not contain any game states");
+  }
+  const bad = states.findIndex((state) => !isGameState(state));
+  if (bad !== -1) throw new ApiError("invalid-response", `Malformed game state at step ${bad}`);
+  return states as GameState[];
+}
+
+const isStringList = (value: unknown): value is string[] =>
+  Array.isArray(value) && value.every((v) => typeof v === "string");
+
+/**
+ * Checks a decoded `/agents` response body, e.g.
+ * `{"agents": [{"code": "deep-ql", "name": "Deep QL", "training": ["1k", "3k"],
+ * "grid_sizes": [3, 5, 7], "available": false, "reason": "Retraining"}]}`.
+ * @param data the parsed JSON body
+ * @returns the agents, converted to the app's naming
+ */
+export function parseAgentsResponse(data: unknown): AgentInfo[] {
+  const agents = (data as { agents?: unknown } | null)?.agents;
+  if (!Array.isArray(agents)) throw new ApiError("invalid-response", "Response did not contain an agent list");
+  return agents.map((entry, i) => {
+    const a = entry as Record<string, unknown> | null;
+    if (!a || typeof a.code !== "string" || a.code === "" || typeof a.name !== "string" || !isStringList(a.training)
+        || !isSizeList(a.grid_sizes) || typeof a.available !== "boolean") {
+      throw new ApiError("invalid-response", `Malformed agent at index ${i}`);
+    }
+    return {
+      code: a.code,
+      name: a.name,
+      trainingOptions: a.training,
+      gridSizes: a.grid_sizes,
+      available: a.available,
+      unavailableReason: typeof a.reason === "string" ? a.reason : undefined
+    };
+  });
+}
+
+/**
+ * Creates an API client bound to a backend.
+ * @param options the base URL, default timeout and an optional fetch implementation
+ * @returns an object with one method per backend route
+ */
+export function createApiClient(options: ApiClientOptions): ApiClient {
+  const fetchImpl = options.fetch ?? ((input, init) => fetch(input, init));
+
+  // Send a request, with a JSON body for POST, and return the decoded JSON response
+  const request = async (method: "GET" | "POST", path: string, body: unknown, requestOptions: RequestOptions = {}): Promise<unknown> => {
+    const controller = new AbortController();
+    let timedOut = false;
+    const timer = setTimeout(() => {
+      timedOut = true;
+      controller.abort();
+    }, requestOptions.timeoutMs ?? options.timeoutMs);
+
+    const outer = requestOptions.signal;
+    const onOuterAbort = () => controller.abort();
+    if (outer?.aborted) controller.abort();
+    outer?.addEventListener("abort", onOuterAbort);
+
+    try {
+      let res: Response;
+      try {
+        res = await fetchImpl(`${options.baseUrl}${path}`, method === "GET" ? { signal: controller.signal } : {
+          method,
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify(body),
+          signal: controller.signal
+        });
+      } catch (err) {
+        if (timedOut) throw new ApiError("timeout", `Request to ${path} timed out`);
+        if (controller.signal.aborted) throw new ApiError("aborted", `Request to ${path} was cancelled`);
+        throw new ApiError("network", `Could not reach the backend: ${(err as Error).message}`);
+      }
+
+      if (!res.ok) {
+        throw new ApiError("http", `Backend responded with ${res.status} ${res.statusText}`.trim(), res.status);
+      }
+      try {
+        return await res.json();
+      } catch {
+        if (timedOut) throw new ApiError("timeout", `Request to ${path} timed out`);
+        if (controller.signal.aborted) throw new ApiError("aborted", `Request to ${path} was cancelled`);
+        throw new ApiError("invalid-response", "Response was not valid JSON");
+      }
+    } finally {
+      clearTimeout(timer);
+      outer?.removeEventListener("abort", onOuterAbort);
+    }
+  };
+
+  return {
+    simulate: async ({ agent, eps, gridSize, seed }, requestOptions) => {
+      const started = performance.now();
+      const data = await request("POST", "/simulate", { agent, eps, grid_size: gridSize, seed }, requestOptions);
+      const states = parseSimulateResponse(data);
+      const response = { ...(data as Record<string, unknown>) };
+      delete response.states;
+      return {
+        states,
+        meta: { source: options.baseUrl, durationMs: Math.round(performance.now() - started), response }
+      };
+    },
+    ping: async (requestOptions) => {
+      await request("POST", "/ping", { ping: "ping" }, requestOptions);
+    },
+    agents: async (requestOptions) => parseAgentsResponse(await request("GET", "/agents", undefined, requestOptions))
+  };
+}
+
+const config = readApiConfig();
+
+/** The client used by the app, configured from the Vite environment */
+export const api: ApiClient = createApiClient({
+  baseUrl: config.useMock ? "mock://backend" : config.baseUrl,
+  timeoutMs: config.timeoutMs,
+  fetch: config.useMock ? createMockFetch() : undefined
+});
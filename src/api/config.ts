@@ -0,0 +1,28 @@
+/**
+ * File: config.ts
+ * Description: Reads the backend connection settings from the Vite environment.
+ */
+
+const DEFAULT_BASE_URL = "https://ai-snake-agents-backend.onrender.com"
+const DEFAULT_TIMEOUT_MS = 60_000 // Render cold starts can take close to a minute
+
+export type ApiConfig = {
+  baseUrl: string,
+  timeoutMs: number,
+  useMock: boolean
+}
+
+/**
+ * Builds the API configuration from `import.meta.env`, falling back to the
+ * hosted Render backend when nothing is configured.
+ * @param env the Vite environment variables
+ * @returns the resolved configuration
+ */
+export function readApiConfig(env: ImportMetaEnv = import.meta.env): ApiConfig {
+  const timeout = Number(env.VITE_API_TIMEOUT_MS);
+  return {
+    baseUrl: (env.VITE_API_BASE_URL || DEFAULT_BASE_URL).replace(/\/+$/, ""),
+    timeoutMs: Number.isFinite(timeout) && timeout > 0 ? timeout : DEFAULT_TIMEOUT_MS,
+    useMock: env.VITE_USE_MOCK_API === "true"
+  };
+}
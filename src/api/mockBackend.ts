@@ -0,0 +1,159 @@
+/**
+ * File: mockBackend.ts
+ * Description: An in-browser stand-in for the simulation backend. It answers
+ * `/simulate` and `/ping` with deterministic games and `/agents` with the
+ * bundled catalog, so the UI can be developed offline. Enable it with
+ * `VITE_USE_MOCK_API=true`.
+ */
+import type { GameState } from "../types"
+import { fruitRandom, hashString, mulberry32 } from "../utils/random"
+import { BUNDLED_AGENTS } from "../agents/catalog"
+
+export type MockBackendOptions = {
+  /** Artificial response delay in milliseconds */
+  latencyMs?: number
+}
+
+/**
+ * Plays a full game on an NxN board surrounded by walls. A* follows a BFS path
+ * to the fruit; the learning agents move greedily with some random exploration
+ * that shrinks as the training amount grows.
+ * @param agent the agent code, e.g. "a*" or "deep-ql"
+ * @param eps the training amount, e.g. "5k" or "N/A"
+ * @param gridSize the interior board size N (without walls)
+ * @param seed the seed; the fruit sequence only depends on this and the board size
+ * @returns every state of the game, starting with the initial board
+ */
+export function simulateMockGame(agent: string, eps: string, gridSize: number, seed: number): GameState[] {
+  const width = gridSize + 2;
+  const fruitRng = fruitRandom(gridSize, seed);
+  const agentRng = mulberry32(hashString(`agent|${agent}|${eps}|${gridSize}|${seed}`));
+  const interior: number[] = [];
+  for (let r = 1; r <= gridSize; r++) {
+    for (let c = 1; c <= gridSize; c++) interior.push(r * width + c);
+  }
+  const isWall = (i: number) => {
+    const row = Math.floor(i / width);
+    const col = i % width;
+    return row === 0 || row === width - 1 || col === 0 || col === width - 1;
+  };
+  const neighbors = (i: number) => [i - width, i + width, i - 1, i + 1];
+  const spawnFruit = (snake: number[]) => {
+    const free = interior.filter((i) => !snake.includes(i));
+    return free.length === 0 ? -1 : free[Math.floor(fruitRng() * free.length)];
+  };
+  const distance = (a: number, b: number) =>
+    Math.abs(Math.floor(a / width) - Math.floor(b / width)) + Math.abs((a % width) - (b % width));
+
+  const episodes = parseInt(eps) * (eps.endsWith("k") ? 1000 : 1) || 0;
+  const explore = agent === "a*" ? 0 : 0.25 / Math.log10(10 + episodes / 1000);
+  const maxMoves = gridSize * gridSize * gridSize * 4;
+
+  let snake = [interior[Math.floor(fruitRng() * interior.length)]];
+  let fruit = spawnFruit(snake);
+  const states: GameState[] = [{ snake, fruit, won: false, died: false }];
+
+  for (let move = 0; move < maxMoves; move++) {
+    // The tail moves out of the way unless the snake is about to grow
+    const body = new Set(snake.slice(0, -1));
+    const safe = neighbors(snake[0]).filter((n) => !isWall(n) && (!body.has(n) || n === fruit));
+    if (safe.length === 0) {
+      states.push({ snake, fruit, won: false, died: true });
+      return states;
+    }
+
+    let next: number;
+    if (agent === "a*") {
+      next = bfsFirstStep(snake[0], fruit, (n) => !isWall(n) && !body.has(n), neighbors) ?? safe[0];
+    } else if (agentRng() < explore) {
+      next = safe[Math.floor(agentRng() * safe.length)];
+    } else {
+      next = safe.reduce((best, n) => (distance(n, fruit) < distance(best, fruit) ? n : best));
+    }
+
+    const ate = next === fruit;
+    snake = ate ? [next, ...snake] : [next, ...snake.slice(0, -1)];
+    if (ate) fruit = spawnFruit(snake);
+    const won = snake.length === interior.length;
+    states.push({ snake, fruit, won, died: false });
+    if (won) return states;
+  }
+
+  // Ran out of moves without winning; treat as starved
+  states[states.length - 1] = { ...states[states.length - 1], died: true };
+  return states;
+}
+
+// Breadth-first search returning the first move along a shortest path, if any
+function bfsFirstStep(start: number, goal: number, passable: (i: number) => boolean,
+    neighbors: (i: number) => number[]): number | undefined {
+  const firstStep = new Map<number, number>();
+  const queue: number[] = [];
+  for (const n of neighbors(start)) {
+    if (passable(n) && !firstStep.has(n)) {
+      firstStep.set(n, n);
+      queue.push(n);
+    }
+  }
+  for (let i = 0; i < queue.length; i++) {
+    const cell = queue[i];
+    if (cell === goal) return firstStep.get(cell);
+    for (const n of neighbors(cell)) {
+      if (n !== start && passable(n) && !firstStep.has(n)) {
+        firstStep.set(n, firstStep.get(cell)!);
+        queue.push(n);
+      }
+    }
+  }
+  return undefined;
+}
+
+// Resolves after `ms`, rejecting early with an AbortError if the signal fires
+function delay(ms: number, signal?: AbortSignal | null): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const abort = () => reject(new DOMException("The operation was aborted.", "AbortError"));
+    if (signal?.aborted) return abort();
+    const timer = setTimeout(resolve, ms);
+    signal?.addEventListener("abort", () => {
+      clearTimeout(timer);
+      abort();
+    }, { once: true });
+  });
+}
+
+const json = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), { status, headers: { "Content-Type": "application/json" } });
+
+/**
+ * Creates a `fetch` replacement that serves the backend routes locally.
+ * @param options mock behaviour such as simulated latency
+ * @returns a function with the same signature as `fetch`
+ */
+export function createMockFetch(options: MockBackendOptions = {}): typeof fetch {
+  const latencyMs = options.latencyMs ?? 300;
+
+  return async (input, init) => {
+    await delay(latencyMs, init?.signal);
+    const url = input instanceof Request ? input.url : String(input);
+    const path = url.replace(/^[a-z]+:\/\/[^/]+/i, "");
+
+    if (path === "/ping") return json({ pong: "pong" });
+    if (path === "/agents") {
+      return json({ agents: BUNDLED_AGENTS.map((a) => ({
+        code: a.code, name: a.name, training: a.trainingOptions, grid_sizes: a.gridSizes,
+        available: a.available, reason: a.unavailableReason ?? null
+      })) });
+    }
+    if (path !== "/simulate") return json({ detail: "Not Found" }, 404);
+
+    const body = JSON.parse(typeof init?.body === "string" ? init.body : "{}");
+    const gridSize = Number(body.grid_size);
+    if (!Number.isInteger(gridSize) || gridSize < 2 || typeof body.agent !== "string") {
+      return json({ detail: "Invalid simulation parameters" }, 422);
+    }
+    const seed = body.seed === "" || body.seed === undefined
+      ? Math.floor(Math.random() * 1000)
+      : Number(body.seed);
+    return json({ states: simulateMockGame(body.agent, String(body.eps), gridSize, seed), seed });
+  };
+}
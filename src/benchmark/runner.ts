@@ -0,0 +1,78 @@
+/**
+ * File: runner.ts
+ * Description: Runs one simulation per seed for several agent configurations.
+ */
+import type { TableResult } from "../types"
+import { api, ApiError, type ApiClient } from "../api/client"
+import { createTableResult } from "../results"
+import { isLocalAgent } from "../agents/localAgents"
+import { runLocalAgent } from "../agents/localClient"
+import { runWithConcurrency } from "../utils/concurrency"
+
+export type BenchmarkConfig = {
+  agent: string,
+  eps: string
+}
+
+/** One finished simulation of a benchmark */
+export type BenchmarkRun = {
+  /** Index into the benchmark's configs */
+  config: number,
+  seed: number,
+  result: TableResult
+}
+
+export type BenchmarkProgress = {
+  completed: number,
+  failed: number,
+  total: number
+}
+
+export type BenchmarkOptions = {
+  configs: BenchmarkConfig[],
+  /** A number N representing the size of the NxN grid, walls included */
+  gridSize: number,
+  seeds: number[],
+  concurrency: number,
+  signal?: AbortSignal,
+  /** Called as each run finishes, so results can be shown while the rest are pending */
+  onRun?: (run: BenchmarkRun) => void,
+  onProgress?: (progress: BenchmarkProgress) => void,
+  client?: ApiClient
+}
+
+/**
+ * Simulates every (config, seed) pair; local agents play in a worker instead
+ * of on the backend. Unlike the comparison slots, local agents are not matched
+ * to a backend run's fruit: each plays the fruit the local engine draws for the
+ * seed, so every run is reproducible from its seed alone. Failed runs are counted and skipped
+ * rather than failing the whole benchmark; aborting stops new runs and
+ * cancels the pending ones.
+ * @param options what to run and how
+ * @returns every run that finished, in completion order
+ */
+export async function runBenchmark(options: BenchmarkOptions): Promise<BenchmarkRun[]> {
+  const { configs, gridSize, seeds, concurrency, signal, onRun, onProgress, client = api } = options;
+  const jobs = configs.flatMap((_, i) => seeds.map((seed) => ({ config: i, seed })));
+  const progress: BenchmarkProgress = { completed: 0, failed: 0, total: jobs.length };
+  const runs: BenchmarkRun[] = [];
+
+  await runWithConcurrency(jobs, concurrency, async ({ config, seed }) => {
+    const { agent, eps } = configs[config];
+    try {
+      const { states, meta } = isLocalAgent(agent)
+        ? await runLocalAgent({ agent, gridSize: gridSize - 2, seed }, { signal })
+        : await client.simulate({ agent, eps, gridSize: gridSize - 2, seed: String(seed) }, { signal });
+      const run = { config, seed, result: createTableResult(agent, eps, gridSize, states, String(seed), meta) };
+      runs.push(run);
+      progress.completed++;
+      onRun?.(run);
+    } catch (err) {
+      if (err instanceof ApiError && err.kind === "aborted") return;
+      progress.failed++;
+    }
+    onProgress?.({ ...progress });
+  }, signal);
+
+  return runs;
+}
@@ -0,0 +1,36 @@
+import { describe, expect, it } from "vitest"
+import { summarize, summarizeRuns } from "./stats"
+import { createTableResult } from "../results"
+import { diedGame, GRID_2, GRID_3, wonGame } from "../test/fixtures"
+
+describe("summarize", () => {
+  it("computes the mean, median and sample standard deviation", () => {
+    expect(summarize([4, 1, 3, 2])).toEqual({ mean: 2.5, median: 2.5, stddev: Math.sqrt(5 / 3) });
+    expect(summarize([5, 1, 3])).toMatchObject({ mean: 3, median: 3 });
+  });
+
+  it("has no spread for a single value and no summary without values", () => {
+    expect(summarize([7])).toEqual({ mean: 7, median: 7, stddev: 0 });
+    expect(summarize([])).toBeNull();
+  });
+});
+
+describe("summarizeRuns", () => {
+  const lost = createTableResult("a*", "N/A", GRID_3, diedGame, "1");
+  const won = createTableResult("a*", "N/A", GRID_2, wonGame, "2");
+  const starved = createTableResult("a*", "N/A", GRID_3, [{ snake: [12], fruit: 13, won: false, died: true }], "3");
+
+  it("rates wins and deaths over every run", () => {
+    const summary = summarizeRuns([lost, won, starved, won]);
+    expect(summary).toMatchObject({ runs: 4, winRate: 0.5, deathRate: 0.5 });
+    expect(summary.moves).toMatchObject({ mean: (7 + 3 + 0 + 3) / 4, median: 3 });
+  });
+
+  it("leaves runs without fruit out of moves per fruit", () => {
+    expect(summarizeRuns([lost, starved]).movesPerFruit).toEqual({ mean: 3.5, median: 3.5, stddev: 0 });
+  });
+
+  it("reports zero rates and no summaries for an empty batch", () => {
+    expect(summarizeRuns([])).toEqual({ runs: 0, winRate: 0, deathRate: 0, moves: null, fruits: null, movesPerFruit: null });
+  });
+});
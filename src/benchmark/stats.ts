@@ -0,0 +1,62 @@
+/**
+ * File: stats.ts
+ * Description: Summary statistics over batches of simulation results.
+ */
+import type { TableResult } from "../types"
+
+export type Summary = {
+  mean: number,
+  median: number,
+  /** Sample standard deviation (0 for a single value) */
+  stddev: number
+}
+
+export type BenchmarkSummary = {
+  runs: number,
+  winRate: number,
+  deathRate: number,
+  moves: Summary | null,
+  fruits: Summary | null,
+  /** Moves per fruit, over the runs that ate at least one fruit */
+  movesPerFruit: Summary | null
+}
+
+/**
+ * Computes the mean, median and standard deviation of a list of numbers.
+ * @param values the samples
+ * @returns the summary, or null when there are no samples
+ */
+export function summarize(values: number[]): Summary | null {
+  if (values.length === 0) return null;
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  const mean = sorted.reduce((sum, v) => sum + v, 0) / sorted.length;
+  const variance = sorted.length > 1
+    ? sorted.reduce((sum, v) => sum + (v - mean) ** 2, 0) / (sorted.length - 1)
+    : 0;
+  return {
+    mean,
+    median: sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2,
+    stddev: Math.sqrt(variance)
+  };
+}
+
+/**
+ * Aggregates a batch of runs of the same agent configuration.
+ * @param results the finished runs
+ * @returns win rate, death rate and summaries of the per-run metrics
+ */
+export function summarizeRuns(results: TableResult[]): BenchmarkSummary {
+  const runs = results.length;
+  const died = results.filter((r) => r.replay[r.replay.length - 1].died).length;
+  // avgMove is meaningless (divided by ~0) for runs that never ate
+  const fed = results.filter((r) => r.fruitCount > 0);
+  return {
+    runs,
+    winRate: runs ? results.filter((r) => r.outcome === "Won").length / runs : 0,
+    deathRate: runs ? died / runs : 0,
+    moves: summarize(results.map((r) => r.moveCount)),
+    fruits: summarize(results.map((r) => r.fruitCount)),
+    movesPerFruit: summarize(fed.map((r) => r.moveCount / r.fruitCount))
+  };
+}
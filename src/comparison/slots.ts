@@ -0,0 +1,57 @@
+/**
+ * File: slots.ts
+ * Description: Comparison slots. Each slot is one board with its own agent
+ * configuration and replay; every slot plays back in step with the others.
+ */
+import type { GameState, TableResult } from "../types"
+import type { GridConfig } from "../url/permalink"
+import { createId } from "../results"
+import { HUMAN_AGENT } from "../agents/catalog"
+
+export const MAX_SLOTS = 6
+
+// Label colors, one per slot
+export const slotColors = ["#34d399", "#38bdf8", "#fbbf24", "#f472b6", "#a78bfa", "#fb923c"]
+
+// Default snake colors, one per slot, so side-by-side boards and exports can be
+// told apart; "" keeps the board theme's own snake
+export const slotSnakeColors = ["", "#9333ea", "#ea580c", "#db2777", "#0891b2", "#ca8a04"]
+
+export type Slot = GridConfig & {
+  /** Stable key for rendering */
+  id: string,
+  /** The loaded replay; empty until a game is run or replayed */
+  states: GameState[],
+  /** Seed the loaded replay was simulated with; "" when nothing is loaded */
+  runSeed: string
+}
+
+/**
+ * Creates an empty slot.
+ * @param config the agent configuration; A* with a blank seed by default
+ * @returns the slot
+ */
+export function createSlot(config: Partial<GridConfig> = {}): Slot {
+  return { id: createId(), agent: "a*", eps: "N/A", seed: "", ...config, states: [], runSeed: "" };
+}
+
+/**
+ * Loads a finished run into a slot, taking over the run's agent settings.
+ * Games played by hand have no agent settings, so the slot keeps its own.
+ * @param slot the slot to load into
+ * @param result a history row
+ * @returns the updated slot
+ */
+export function withResult(slot: Slot, result: TableResult): Slot {
+  const config = result.agentCode === HUMAN_AGENT ? {} : { agent: result.agentCode, eps: result.train };
+  return { ...slot, ...config, states: result.replay, runSeed: result.seed };
+}
+
+/**
+ * The label of a slot.
+ * @param index the slot's position
+ * @returns e.g. "Slot 1"
+ */
+export function slotLabel(index: number): string {
+  return `Slot ${index + 1}`;
+}
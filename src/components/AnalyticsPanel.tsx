@@ -0,0 +1,113 @@
+/**
+ * File: AnalyticsPanel.tsx
+ * Description: Charts over the simulation history and the currently loaded
+ * grids, all computed client-side from the stored replays.
+ */
+import { useState, type JSX } from "react"
+import type { GameState, TableResult } from "../types"
+import { styles } from "../styles"
+import { BarChart, HistogramChart, LineChart } from "./Charts"
+import { histogram, lengthOverTime, movesPerFruit, winRateByAgent } from "../analytics/analytics"
+
+export type LoadedGrid = {
+  label: string,
+  color: string,
+  states: GameState[]
+}
+
+const chartCard = "rounded-lg border border-black/10 bg-cyan-900/80 p-3"
+const chartTitle = "mb-2 text-sm font-semibold text-white"
+const emptyText = "py-8 text-center text-sm text-white/70"
+
+/**
+ * This function creates the analytics panel.
+ * @param results the simulation history, newest first
+ * @param grids the runs currently shown in the grids, for the head-to-head chart
+ * @returns JSX elements for this component
+ */
+export default function AnalyticsPanel({ results, grids }: { results: TableResult[], grids: LoadedGrid[] }): JSX.Element {
+  const [open, setOpen] = useState<boolean>(false);
+  // Kept by id so the chart stays on the same run as new runs are added on top
+  const [selected, setSelected] = useState<string | null>(null);
+  const replay = results.find((r) => r.id === selected) ?? results[0];
+  const loaded = grids.filter((g) => g.states.length > 0);
+
+  return (
+    <section className={`${styles.card} mt-2 p-5`}>
+      <div className="flex items-center justify-between">
+        <h3 className={styles.sectionTitle}>Analytics</h3>
+        <button className={styles.btnSlate} onClick={() => setOpen((o) => !o)}>{open ? "Hide" : "Show"} charts</button>
+      </div>
+
+      {open && (
+        <div className="mt-4 grid grid-cols-2 gap-4">
+          {/* Win rate per agent and training amount */}
+          <div className={chartCard}>
+            <p className={chartTitle}>Win rate by agent and training</p>
+            {results.length === 0 ? <p className={emptyText}>No runs yet</p> : (
+              <BarChart
+                label="Win rate by agent and training"
+                max={1}
+                format={(v) => `${Math.round(v * 100)}%`}
+                bars={winRateByAgent(results).map((g) => ({
+                  label: g.train === "N/A" ? g.agent : `${g.agent} ${g.train}`,
+                  value: g.winRate,
+                  title: `${g.wins} of ${g.runs} runs won`
+                }))}
+              />
+            )}
+          </div>
+
+          {/* Efficiency distribution */}
+          <div className={chartCard}>
+            <p className={chartTitle}>Distribution of moves per fruit</p>
+            {movesPerFruit(results).length === 0 ? <p className={emptyText}>No runs with fruit eaten yet</p> : (
+              <HistogramChart label="Distribution of moves per fruit" bins={histogram(movesPerFruit(results))} xLabel="Moves per fruit" />
+            )}
+          </div>
+
+          {/* Growth of a single replay */}
+          <div className={chartCard}>
+            <div className="mb-2 flex items-center justify-between gap-2">
+              <p className={chartTitle}>Snake length over time</p>
+              {results.length > 0 && (
+                <select className={styles.select} value={replay.id} onChange={(e) => setSelected(e.target.value)}>
+                  {results.map((r, i) => (
+                    <option key={r.id} value={r.id}>#{results.length - i} {r.agent} {r.train} {r.gridSize} ({r.outcome})</option>
+                  ))}
+                </select>
+              )}
+            </div>
+            {!replay ? <p className={emptyText}>No runs yet</p> : (
+              <LineChart
+                label={`Snake length over time for ${replay.agent}`}
+                xLabel="Move"
+                series={[{ label: replay.agent, color: "#38bdf8", values: lengthOverTime(replay.replay) }]}
+              />
+            )}
+          </div>
+
+          {/* The loaded slots against each other */}
+          <div className={chartCard}>
+            <p className={chartTitle}>Head to head: snake length in the loaded slots</p>
+            {loaded.length < 2 ? <p className={emptyText}>Load runs into at least two slots to compare them</p> : (
+              <>
+                <LineChart label="Snake length in the loaded slots" xLabel="Move" series={loaded.map((g) => ({ label: g.label, color: g.color, values: lengthOverTime(g.states) }))} />
+                <div className="mt-2 flex justify-around text-xs text-white">
+                  {loaded.map((g) => {
+                    const last = g.states[g.states.length - 1];
+                    return (
+                      <span key={g.label} style={{ color: g.color }}>
+                        {g.label}: {g.states.length - 1} moves, {last.snake.length - 1} fruits, {last.won ? "won" : "lost"}
+                      </span>
+                    );
+                  })}
+                </div>
+              </>
+            )}
+          </div>
+        </div>
+      )}
+    </section>
+  );
+}
@@ -0,0 +1,233 @@
+/**
+ * File: BenchmarkPanel.tsx
+ * Description: Batch runs of one or more agent configurations over a range of
+ * seeds, with aggregate statistics and per-run replays.
+ */
+import { useRef, useState, type JSX } from "react"
+import type { AgentInfo, TableResult } from "../types"
+import { styles } from "../styles"
+import ModelSelect from "./ModelSelect"
+import SlotPicker from "./SlotPicker"
+import { runBenchmark, type BenchmarkConfig, type BenchmarkProgress, type BenchmarkRun } from "../benchmark/runner"
+import { summarizeRuns, type Summary } from "../benchmark/stats"
+import { agentIssue, agentName, findAgent } from "../agents/catalog"
+import { isLocalAgent } from "../agents/localAgents"
+
+const MAX_CONFIGS = 6
+const concurrencyOptions = [1, 2, 4, 8]
+
+// "mean / median / sd" for the comparison table
+const formatSummary = (s: Summary | null) =>
+  s ? `${s.mean.toFixed(1)} / ${s.median.toFixed(1)} / ${s.stddev.toFixed(1)}` : "-";
+
+const percent = (x: number) => `${(x * 100).toFixed(1)}%`;
+
+const configName = (c: BenchmarkConfig) => `${agentName(c.agent)}${c.eps === "N/A" ? "" : ` ${c.eps}`}`;
+
+/**
+ * This function creates the benchmark panel.
+ * @param catalog the agents to choose from
+ * @param gridSizeOptions the interior board sizes that can be benchmarked
+ * @param defaultGridSize the initially selected grid size, walls included
+ * @param serverLive whether the backend is currently reachable; only local agents can run without it
+ * @param slotCount the number of comparison slots
+ * @param onReplay called with a run's result and the slot index to replay it in; `slotCount` adds a slot
+ * @returns JSX elements for this component
+ */
+export default function BenchmarkPanel({ catalog, gridSizeOptions, defaultGridSize, serverLive, slotCount, onReplay }:
+    { catalog: AgentInfo[],
+      gridSizeOptions: number[],
+      defaultGridSize: number,
+      serverLive: boolean,
+      slotCount: number,
+      onReplay: (result: TableResult, slot: number) => void }): JSX.Element {
+  const [configs, setConfigs] = useState<BenchmarkConfig[]>([{ agent: "a*", eps: "N/A" }]);
+  const [gridSize, setGridSize] = useState<number>(defaultGridSize);
+  const [seedFrom, setSeedFrom] = useState<string>("0");
+  const [seedTo, setSeedTo] = useState<string>("99");
+  const [concurrency, setConcurrency] = useState<number>(4);
+
+  const [ranConfigs, setRanConfigs] = useState<BenchmarkConfig[]>([]);
+  const [runs, setRuns] = useState<BenchmarkRun[]>([]);
+  const [progress, setProgress] = useState<BenchmarkProgress | null>(null);
+  const [running, setRunning] = useState<boolean>(false);
+  const controllerRef = useRef<AbortController | null>(null);
+
+  const from = Number(seedFrom);
+  const to = Number(seedTo);
+  const needsServer = configs.some((c) => !isLocalAgent(c.agent));
+  const configsUsable = configs.every((c) => {
+    const info = findAgent(catalog, c.agent);
+    return info !== undefined && agentIssue(info, gridSize - 2) === undefined;
+  });
+  const seedsValid = /^\d+$/.test(seedFrom) && /^\d+$/.test(seedTo) && from <= to && to <= 999;
+
+  // Setter for one field of one configuration, shaped like a useState setter for ModelSelect
+  const setField = (index: number, field: keyof BenchmarkConfig): React.Dispatch<React.SetStateAction<string>> =>
+    (value) => setConfigs((cs) => cs.map((c, i) =>
+      i === index ? { ...c, [field]: typeof value === "function" ? value(c[field]) : value } : c));
+
+  const start = async () => {
+    const controller = new AbortController();
+    controllerRef.current = controller;
+    const seeds = Array.from({ length: to - from + 1 }, (_, i) => from + i);
+    setRanConfigs(configs);
+    setRuns([]);
+    setProgress({ completed: 0, failed: 0, total: seeds.length * configs.length });
+    setRunning(true);
+    try {
+      await runBenchmark({
+        configs, gridSize, seeds, concurrency,
+        signal: controller.signal,
+        onRun: (run) => setRuns((r) => [...r, run]),
+        onProgress: setProgress
+      });
+    } finally {
+      controllerRef.current = null;
+      setRunning(false);
+    }
+  };
+
+  const cancel = () => controllerRef.current?.abort();
+
+  const done = progress ? progress.completed + progress.failed : 0;
+
+  return (
+    <section className={`${styles.card} mt-2 p-5`}>
+      <div className="mb-4 flex items-center justify-between">
+        <h3 className={styles.sectionTitle}>Benchmark</h3>
+        <span className="text-xs text-white/80">Run every seed in a range for each configuration</span>
+      </div>
+
+      {/* Agent configurations */}
+      <div className="grid grid-cols-3 gap-4">
+        {configs.map((config, i) => (
+          <div key={i} className="rounded-lg border border-black/10 bg-gray-300/60 p-3">
+            <ModelSelect
+              catalog={catalog}
+              gridSize={gridSize - 2}
+              agent={config.agent}
+              eps={config.eps}
+              setAgent={setField(i, "agent")}
+              setEps={setField(i, "eps")}
+              resetBoard={() => {}}
+              idPrefix={`bench${i}-`}
+            />
+            {configs.length > 1 && (
+              <button className={`${styles.btnSecondarySm} mt-2`} disabled={running}
+                onClick={() => setConfigs((cs) => cs.filter((_, j) => j !== i))}>Remove</button>
+            )}
+          </div>
+        ))}
+        {configs.length < MAX_CONFIGS && (
+          <button className={styles.btnSlate} disabled={running}
+            onClick={() => setConfigs((cs) => [...cs, { agent: "a*", eps: "N/A" }])}>Add configuration</button>
+        )}
+      </div>
+
+      {/* Run settings */}
+      <div className="mt-4 flex flex-wrap items-center gap-4">
+        <label className={styles.label}>
+          Grid Size:
+          <select className={`${styles.select} ml-2`} value={gridSize} disabled={running}
+            onChange={(e) => setGridSize(parseInt(e.target.value))}>
+            {gridSizeOptions.map((n) => <option key={n} value={n + 2}>{n}x{n}</option>)}
+          </select>
+        </label>
+        <label className={styles.label}>
+          Seeds:
+          <input className={`${styles.input} ml-2 w-16`} inputMode="numeric" value={seedFrom} disabled={running}
+            onChange={(e) => setSeedFrom(e.target.value)} />
+          <span className="mx-1">to</span>
+          <input className={`${styles.input} w-16`} inputMode="numeric" value={seedTo} disabled={running}
+            onChange={(e) => setSeedTo(e.target.value)} />
+        </label>
+        <label className={styles.label}>
+          Concurrent requests:
+          <select className={`${styles.select} ml-2`} value={concurrency} disabled={running}
+            onChange={(e) => setConcurrency(parseInt(e.target.value))}>
+            {concurrencyOptions.map((n) => <option key={n} value={n}>{n}</option>)}
+          </select>
+        </label>
+        {running ? (
+          <button className={styles.btnPrimary} onClick={cancel}>Cancel</button>
+        ) : (
+          <button className={styles.btnPrimary} disabled={!seedsValid || !configsUsable || (needsServer && !serverLive)} onClick={() => start()}
+            title={needsServer && !serverLive ? "Waiting for the server" : undefined}>Run benchmark</button>
+        )}
+        {!seedsValid && <span className="text-sm text-rose-800">Seeds must be a range within 0-999</span>}
+      </div>
+      {needsServer && configs.some((c) => isLocalAgent(c.agent)) && (
+        <p className="mt-2 text-xs text-white">
+          In-browser agents play the fruit their own engine draws for each seed rather than the fruit of the
+          server games, so unlike in the comparison slots they play different boards from the server agents here.
+        </p>
+      )}
+
+      {/* Progress */}
+      {progress && (
+        <div className="mt-4">
+          <div className="h-2 w-full overflow-hidden rounded-full bg-gray-300">
+            <div className="h-full bg-sky-500 transition-all" style={{ width: `${(done / Math.max(1, progress.total)) * 100}%` }} />
+          </div>
+          <p className="mt-1 text-xs text-white">
+            {done} / {progress.total} runs{progress.failed > 0 && `, ${progress.failed} failed`}
+            {!running && done < progress.total && " (cancelled)"}
+          </p>
+        </div>
+      )}
+
+      {/* Comparison table */}
+      {ranConfigs.length > 0 && (
+        <div className="mt-4 overflow-x-auto">
+          <table className="min-w-full border border-black text-white">
+            <thead>
+              <tr className="divide-x bg-gray-200 text-xs uppercase tracking-wide text-black">
+                <th className="px-4 py-3">Configuration</th>
+                <th className="px-4 py-3">Runs</th>
+                <th className="px-4 py-3">Win Rate</th>
+                <th className="px-4 py-3">Death Rate</th>
+                <th className="px-4 py-3">Moves (mean / median / sd)</th>
+                <th className="px-4 py-3">Fruits (mean / median / sd)</th>
+                <th className="px-4 py-3">Moves Per Fruit (mean / median / sd)</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-white/5 bg-cyan-900/80">
+              {ranConfigs.map((config, i) => {
+                const summary = summarizeRuns(runs.filter((r) => r.config === i).map((r) => r.result));
+                return (
+                  <tr key={i} className={`divide-x ${i % 2 ? "bg-slate-500/50" : ""}`}>
+                    <td className={styles.tableCell}>{configName(config)}</td>
+                    <td className={styles.tableCell}>{summary.runs}</td>
+                    <td className={styles.tableCell}>{percent(summary.winRate)}</td>
+                    <td className={styles.tableCell}>{percent(summary.deathRate)}</td>
+                    <td className={styles.tableCell}>{formatSummary(summary.moves)}</td>
+                    <td className={styles.tableCell}>{formatSummary(summary.fruits)}</td>
+                    <td className={styles.tableCellLast}>{formatSummary(summary.movesPerFruit)}</td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+
+          {/* Individual runs, each replayable */}
+          {ranConfigs.map((config, i) => (
+            <details key={i} className="mt-2 text-white">
+              <summary className="cursor-pointer text-sm">Runs for {configName(config)}</summary>
+              <div className="mt-2 flex flex-wrap gap-2">
+                {runs.filter((r) => r.config === i).sort((a, b) => a.seed - b.seed).map((run) => (
+                  <div key={run.seed} className="flex items-center gap-1 rounded-lg bg-cyan-900/80 px-2 py-1 text-xs">
+                    <span className={run.result.outcome === "Won" ? "text-emerald-200" : "text-rose-200"}>
+                      Seed {run.seed}: {run.result.moveCount} moves, {run.result.fruitCount} fruits
+                    </span>
+                    <SlotPicker slotCount={slotCount} onPick={(slot) => onReplay(run.result, slot)} />
+                  </div>
+                ))}
+              </div>
+            </details>
+          ))}
+        </div>
+      )}
+    </section>
+  );
+}
@@ -0,0 +1,13 @@
+import { describe, expect, it } from "vitest"
+import { render, screen } from "@testing-library/react"
+import { LineChart } from "./Charts"
+
+describe("LineChart", () => {
+  it("scales to a series too long to spread into Math.max", () => {
+    const values = Array.from({ length: 500_000 }, (_, i) => i % 100);
+    const { container } = render(<LineChart label="Long replay" xLabel="Move" series={[{ label: "long", color: "#38bdf8", values }]} />);
+    expect(container.querySelector("polyline")).not.toBeNull();
+    expect(screen.getByRole("img", { name: "Long replay" })).toBeInTheDocument();
+    expect(container.textContent).toContain("99");
+  });
+});
@@ -0,0 +1,164 @@
+/**
+ * File: Charts.tsx
+ * Description: Minimal dependency-free SVG charts used by the analytics panel.
+ */
+import type { JSX } from "react"
+import type { HistogramBin } from "../analytics/analytics"
+
+export type Bar = {
+  label: string,
+  value: number,
+  /** Text shown on hover */
+  title?: string
+}
+
+export type Series = {
+  label: string,
+  color: string,
+  values: number[]
+}
+
+// Shared chart geometry in SVG user units; the SVG scales to its container width
+const width = 480
+const height = 220
+const pad = { top: 12, right: 12, bottom: 40, left: 40 }
+const plotW = width - pad.left - pad.right
+const plotH = height - pad.top - pad.bottom
+const axisText = "fill-white text-[10px]"
+
+/**
+ * Evenly spaced "nice enough" tick values from 0 to max.
+ * @param max the largest value on the axis
+ * @param count the number of intervals
+ * @returns the tick values
+ */
+function ticks(max: number, count = 4): number[] {
+  return Array.from({ length: count + 1 }, (_, i) => (max * i) / count);
+}
+
+// The top of an axis: the largest value, at least 1. A loop rather than Math.max(...values),
+// which overflows the call stack on very long replays
+const axisTop = (values: number[]) => values.reduce((top, v) => (v > top ? v : top), 1);
+
+const formatTick = (v: number) => (Number.isInteger(v) ? String(v) : v.toFixed(1));
+
+/**
+ * This function draws the Y axis with gridlines.
+ * @param max the value at the top of the axis
+ * @param format how to print tick values
+ * @returns JSX elements for this component
+ */
+function YAxis({ max, format = formatTick }: { max: number, format?: (v: number) => string }): JSX.Element {
+  return (
+    <g>
+      {ticks(max).map((t) => {
+        const y = pad.top + plotH - (t / (max || 1)) * plotH;
+        return (
+          <g key={t}>
+            <line x1={pad.left} x2={width - pad.right} y1={y} y2={y} className="stroke-white/20" />
+            <text x={pad.left - 4} y={y + 3} textAnchor="end" className={axisText}>{format(t)}</text>
+          </g>
+        );
+      })}
+    </g>
+  );
+}
+
+/**
+ * This function creates a vertical bar chart.
+ * @param label the accessible name of the chart
+ * @param bars the bars, drawn left to right
+ * @param max the value at the top of the axis (defaults to the largest bar)
+ * @param format how to print values on the axis
+ * @returns JSX elements for this component
+ */
+export function BarChart({ label, bars, max, format }:
+    { label: string, bars: Bar[], max?: number, format?: (v: number) => string }): JSX.Element {
+  const top = max ?? axisTop(bars.map((b) => b.value));
+  const slot = plotW / Math.max(1, bars.length);
+  return (
+    <svg viewBox={`0 0 ${width} ${height}`} className="w-full" role="img" aria-label={label}>
+      <YAxis max={top} format={format} />
+      {bars.map((bar, i) => {
+        const h = (bar.value / top) * plotH;
+        const x = pad.left + i * slot;
+        return (
+          <g key={bar.label}>
+            <rect x={x + slot * 0.15} y={pad.top + plotH - h} width={slot * 0.7} height={h} className="fill-sky-400">
+              <title>{bar.title ?? `${bar.label}: ${bar.value}`}</title>
+            </rect>
+            <text x={x + slot / 2} y={height - pad.bottom + 14} textAnchor="middle" className={axisText}>{bar.label}</text>
+          </g>
+        );
+      })}
+    </svg>
+  );
+}
+
+/**
+ * This function creates a histogram.
+ * @param label the accessible name of the chart
+ * @param bins the bins from `histogram`
+ * @param xLabel the name of the binned quantity
+ * @returns JSX elements for this component
+ */
+export function HistogramChart({ label, bins, xLabel }: { label: string, bins: HistogramBin[], xLabel: string }): JSX.Element {
+  const top = axisTop(bins.map((b) => b.count));
+  const barW = plotW / Math.max(1, bins.length);
+  return (
+    <svg viewBox={`0 0 ${width} ${height}`} className="w-full" role="img" aria-label={label}>
+      <YAxis max={top} />
+      {bins.map((bin, i) => {
+        const h = (bin.count / top) * plotH;
+        return (
+          <rect key={i} x={pad.left + i * barW + 1} y={pad.top + plotH - h} width={barW - 2} height={h} className="fill-emerald-400">
+            <title>{`${bin.from.toFixed(2)}-${bin.to.toFixed(2)}: ${bin.count} runs`}</title>
+          </rect>
+        );
+      })}
+      {bins.length > 0 && (
+        <>
+          <text x={pad.left} y={height - pad.bottom + 14} textAnchor="start" className={axisText}>{bins[0].from.toFixed(1)}</text>
+          <text x={width - pad.right} y={height - pad.bottom + 14} textAnchor="end" className={axisText}>{bins[bins.length - 1].to.toFixed(1)}</text>
+        </>
+      )}
+      <text x={pad.left + plotW / 2} y={height - 6} textAnchor="middle" className={axisText}>{xLabel}</text>
+    </svg>
+  );
+}
+
+/**
+ * This function creates a line chart with one line per series, plotted
+ * against the step index.
+ * @param label the accessible name of the chart
+ * @param series the lines to draw
+ * @param xLabel the name of the X axis
+ * @returns JSX elements for this component
+ */
+export function LineChart({ label, series, xLabel }: { label: string, series: Series[], xLabel: string }): JSX.Element {
+  const top = series.reduce((t, s) => Math.max(t, axisTop(s.values)), 1);
+  const steps = axisTop(series.map((s) => s.values.length - 1));
+  const toPoints = (values: number[]) => values
+    .map((v, i) => `${pad.left + (i / steps) * plotW},${pad.top + plotH - (v / top) * plotH}`)
+    .join(" ");
+  return (
+    <svg viewBox={`0 0 ${width} ${height}`} className="w-full" role="img" aria-label={label}>
+      <YAxis max={top} />
+      {series.map((s) => (
+        <polyline key={s.label} points={toPoints(s.values)} fill="none" stroke={s.color} strokeWidth={2}>
+          <title>{s.label}</title>
+        </polyline>
+      ))}
+      <text x={pad.left} y={height - pad.bottom + 14} textAnchor="start" className={axisText}>0</text>
+      <text x={width - pad.right} y={height - pad.bottom + 14} textAnchor="end" className={axisText}>{steps}</text>
+      <text x={pad.left + plotW / 2} y={height - 6} textAnchor="middle" className={axisText}>{xLabel}</text>
+      {/* Legend */}
+      {series.map((s, i) => (
+        <g key={s.label} transform={`translate(${pad.left + 8 + i * 150}, ${pad.top + 6})`}>
+          <rect width={10} height={10} fill={s.color} />
+          <text x={14} y={9} className={axisText}>{s.label}</text>
+        </g>
+      ))}
+    </svg>
+  );
+}
@@ -0,0 +1,80 @@
+/**
+ * File: DisplaySettings.tsx
+ * Description: The board appearance settings: color theme, custom palette,
+ * grid lines, and the replay overlays on every board at once with the trail
+ * length. Changes are saved as preferences.
+ */
+import type { JSX } from "react"
+import { styles } from "../styles"
+import { slotSnakeColors } from "../comparison/slots"
+import { boardThemeLabels, type BoardThemeName, type CustomPalette } from "../render/themes"
+import type { Preferences } from "../preferences/preferencesStore"
+import { MAX_TRAIL_LENGTH, MIN_TRAIL_LENGTH, overlayLabels, type BoardOverlays } from "../render/overlays"
+
+const paletteLabels: Record<keyof CustomPalette, string> = {
+  wall: "Walls",
+  cellLight: "Light cells",
+  cellDark: "Dark cells",
+  fruit: "Fruit",
+  snake: "Snake"
+}
+
+/**
+ * This function creates the display settings.
+ * @param preferences the current preferences
+ * @param onChange called with the preferences to change
+ * @returns JSX elements for this component
+ */
+export default function DisplaySettings({ preferences, onChange }:
+    { preferences: Preferences, onChange: (changes: Partial<Preferences>) => void }): JSX.Element {
+  // Each grid toggles its own overlays; these switch one on or off for every slot
+  const overlayToggle = (key: keyof BoardOverlays) => (
+    <label key={key} className={`${styles.label} flex items-center gap-2`} title={`${overlayLabels[key].title}, on every board`}>
+      <input type="checkbox" checked={preferences.overlays.every((o) => o[key])}
+        onChange={(e) => onChange({ overlays: preferences.overlays.map((o) => ({ ...o, [key]: e.target.checked })) })} />
+      {overlayLabels[key].label}
+    </label>
+  );
+
+  return (
+    <div className="flex flex-wrap items-center gap-6">
+      <div title={preferences.highContrast ? "High contrast is on and replaces the theme" : undefined}>
+        <label htmlFor="board-theme" className={styles.label}>Board theme:</label>
+        <select id="board-theme" className={`${styles.select} ml-2`} value={preferences.boardTheme}
+          disabled={preferences.highContrast}
+          onChange={(e) => onChange({ boardTheme: e.target.value as BoardThemeName })}>
+          {(Object.keys(boardThemeLabels) as BoardThemeName[]).map((name) => (
+            <option key={name} value={name}>{boardThemeLabels[name]}</option>
+          ))}
+        </select>
+      </div>
+      {preferences.boardTheme === "custom" && !preferences.highContrast && (
+        <div className="flex flex-wrap items-center gap-3">
+          {(Object.keys(paletteLabels) as (keyof CustomPalette)[]).map((key) => (
+            <label key={key} className="flex items-center gap-1 text-sm">
+              <input type="color" className="h-6 w-8 cursor-pointer" value={preferences.customPalette[key]}
+                onChange={(e) => onChange({ customPalette: { ...preferences.customPalette, [key]: e.target.value } })} />
+              {paletteLabels[key]}
+            </label>
+          ))}
+        </div>
+      )}
+      <label className={`${styles.label} flex items-center gap-2`} title="Outline every cell">
+        <input type="checkbox" checked={preferences.gridLines} onChange={(e) => onChange({ gridLines: e.target.checked })} />
+        Grid lines
+      </label>
+      {(Object.keys(overlayLabels) as (keyof BoardOverlays)[]).map(overlayToggle)}
+      <label className={styles.label} title="How many of the latest moves the trail follows">
+        Trail moves:
+        <input type="number" className={`${styles.input} ml-2 w-16`} min={MIN_TRAIL_LENGTH} max={MAX_TRAIL_LENGTH}
+          value={preferences.trailLength}
+          onChange={(e) => {
+            const length = parseInt(e.target.value);
+            if (length >= MIN_TRAIL_LENGTH && length <= MAX_TRAIL_LENGTH) onChange({ trailLength: length });
+          }} />
+      </label>
+      <button className={`${styles.btnSecondarySm} ml-auto`} title="Go back to the default snake color of every slot"
+        onClick={() => onChange({ snakeColors: slotSnakeColors })}>Reset snake colors</button>
+    </div>
+  );
+}
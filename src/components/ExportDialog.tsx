@@ -0,0 +1,136 @@
+/**
+ * File: ExportDialog.tsx
+ * Description: Saves replays as a PNG of one step, an animated GIF or a WebM
+ * video, rendered in the browser.
+ */
+import { useEffect, useRef, useState, type JSX } from "react"
+import { styles } from "../styles"
+import { downloadBlob } from "../utils/download"
+import { formatSpeed } from "../replay/playback"
+import {
+  canRecordWebm, exportFileName, exportGif, exportPng, exportWebm, frameSteps, lastStep,
+  MAX_EXPORT_FRAMES, type ExportFormat, type ExportSource
+} from "../export/replayExport"
+
+const speedOptions = [0.5, 1, 2, 4, 8, 16]
+
+const formatLabels: Record<ExportFormat, string> = {
+  png: "PNG image of the current step",
+  gif: "Animated GIF of the full replay",
+  webm: "WebM video of the full replay"
+}
+
+/**
+ * This function creates the export dialog.
+ * @param source the boards to export
+ * @param defaultSpeed the initially selected playback speed
+ * @param onClose called to close the dialog; a running export is cancelled
+ * @returns JSX elements for this component
+ */
+export default function ExportDialog({ source, defaultSpeed, onClose }:
+    { source: ExportSource, defaultSpeed: number, onClose: () => void }): JSX.Element {
+  const [format, setFormat] = useState<ExportFormat>("gif");
+  const [speed, setSpeed] = useState<number>(speedOptions.includes(defaultSpeed) ? defaultSpeed : 1);
+  const [progress, setProgress] = useState<number | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+  const controllerRef = useRef<AbortController | null>(null);
+  const dialogRef = useRef<HTMLDivElement>(null);
+
+  const frames = frameSteps(lastStep(source)).length;
+  const seconds = Math.ceil((frames * 500) / speed / 1000);
+  const webmSupported = canRecordWebm();
+
+  useEffect(() => () => controllerRef.current?.abort(), []); // stop rendering when closed
+
+  useEffect(() => { // focus the first control, and give focus back to the opener when closed
+    const opener = document.activeElement;
+    dialogRef.current?.querySelector<HTMLElement>("select, button")?.focus();
+    return () => { if (opener instanceof HTMLElement) opener.focus(); };
+  }, []);
+
+  useEffect(() => { // Escape closes the dialog; Tab stays inside it
+    const onKey = (e: KeyboardEvent) => {
+      if (e.key === "Escape") onClose();
+      if (e.key !== "Tab" || !dialogRef.current) return;
+      const focusable = [...dialogRef.current.querySelectorAll<HTMLElement>("select, button")]
+        .filter((el) => !(el as HTMLButtonElement).disabled && el.tabIndex >= 0);
+      const first = focusable[0];
+      const last = focusable[focusable.length - 1];
+      const inside = dialogRef.current.contains(document.activeElement);
+      if (e.shiftKey && (document.activeElement === first || !inside)) { e.preventDefault(); last?.focus(); }
+      else if (!e.shiftKey && (document.activeElement === last || !inside)) { e.preventDefault(); first?.focus(); }
+    };
+    window.addEventListener("keydown", onKey);
+    return () => window.removeEventListener("keydown", onKey);
+  }, [onClose]);
+
+  const save = async () => {
+    const controller = new AbortController();
+    controllerRef.current = controller;
+    setNotice(null);
+    setProgress(0);
+    try {
+      const options = { speed, signal: controller.signal, onProgress: setProgress };
+      const blob = format === "png" ? await exportPng(source)
+        : format === "gif" ? await exportGif(source, options)
+        : await exportWebm(source, options);
+      const name = exportFileName(source, format);
+      downloadBlob(blob, name);
+      setNotice(`Saved ${name} (${Math.max(1, Math.round(blob.size / 1024))} KB)`);
+    } catch (err) {
+      if (!controller.signal.aborted) setNotice(`Export failed: ${err instanceof Error ? err.message : String(err)}`);
+    } finally {
+      controllerRef.current = null;
+      setProgress(null);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-20 flex items-center justify-center bg-black/50" onClick={onClose}>
+      <div ref={dialogRef} role="dialog" aria-modal="true" aria-labelledby="export-title"
+        className={`${styles.card} w-full max-w-md bg-cyan-900 p-5 text-white`} onClick={(e) => e.stopPropagation()}>
+        <h3 id="export-title" className={`${styles.sectionTitle} mb-3`}>Export {source.title}</h3>
+
+        <div className="flex flex-col gap-3">
+          <label className={styles.label}>
+            Format:
+            <select className={`${styles.select} ml-2 text-black`} value={format} disabled={progress !== null}
+              onChange={(e) => setFormat(e.target.value as ExportFormat)}>
+              {(Object.keys(formatLabels) as ExportFormat[]).map((f) => (
+                <option key={f} value={f} disabled={f === "webm" && !webmSupported}>{formatLabels[f]}</option>
+              ))}
+            </select>
+          </label>
+          {format !== "png" && (
+            <label className={styles.label}>
+              Speed:
+              <select className={`${styles.select} ml-2 text-black`} value={speed} disabled={progress !== null}
+                onChange={(e) => setSpeed(Number(e.target.value))}>
+                {speedOptions.map((s) => <option key={s} value={s}>{formatSpeed(s)}</option>)}
+              </select>
+            </label>
+          )}
+          <p className="text-xs text-white/80">
+            {format === "png" && `Step ${Math.min(source.step, lastStep(source))} of ${source.boards.length} board${source.boards.length === 1 ? "" : "s"}`}
+            {format !== "png" && `${frames} frames, about ${seconds} s long`}
+            {format !== "png" && frames === MAX_EXPORT_FRAMES && "; long replays skip moves evenly"}
+            {format === "webm" && "; recording takes as long as the video"}
+          </p>
+          {progress !== null && (
+            <progress className="w-full" value={progress} max={1} aria-label="Export progress" />
+          )}
+          {notice && <p className="text-sm" role="status">{notice}</p>}
+        </div>
+
+        <div className="mt-4 flex justify-end gap-2">
+          {progress !== null ? (
+            <button className={styles.btnSecondarySm} onClick={() => controllerRef.current?.abort()}>Cancel</button>
+          ) : (
+            <button className={styles.btnPrimarySm} disabled={lastStep(source) < 0} onClick={save}>Save</button>
+          )}
+          <button className={styles.btnSlate} onClick={onClose}>Close</button>
+        </div>
+      </div>
+    </div>
+  );
+}
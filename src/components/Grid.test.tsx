@@ -0,0 +1,140 @@
+import { describe, expect, it, vi } from "vitest"
+import { fireEvent, render, screen } from "@testing-library/react"
+import Grid from "./Grid"
+import { boardColors, highContrastBoardColors, snakePalette } from "../render/board"
+import { canvasRecord, type FillCall } from "../test/canvas"
+import { diedGame, GRID_3, wonGame, GRID_2 } from "../test/fixtures"
+
+const CELL = 32 // without a ResizeObserver callback the grid keeps its largest cells
+
+// The fill of the latest frame covering a cell
+function cellFill(fills: FillCall[], index: number, gridSize: number): string | undefined {
+  const x = (index % gridSize) * CELL;
+  const y = Math.floor(index / gridSize) * CELL;
+  return fills.filter((f) => f.x === x && f.y === y && f.width === CELL).pop()?.style;
+}
+
+function renderGrid(props: Partial<Parameters<typeof Grid>[0]> = {}) {
+  const { container } = render(<Grid gridSize={GRID_3} timeStep={0} gameStates={diedGame} {...props} />);
+  return canvasRecord(container.querySelector("canvas")!);
+}
+
+describe("Grid", () => {
+  it("colors the fruit and each snake segment from head to tail", () => {
+    const { frame } = renderGrid({ timeStep: 4 });
+    const palette = snakePalette(GRID_3);
+    expect(cellFill(frame, 18, GRID_3)).toBe(boardColors.fruit);
+    expect(cellFill(frame, 6, GRID_3)).toBe(palette[0]);
+    expect(cellFill(frame, 7, GRID_3)).toBe(palette[1]);
+    expect(cellFill(frame, 8, GRID_3)).toBe(palette[2]);
+    expect(frame).toHaveLength(4);
+  });
+
+  it("draws the walls and checkerboard into the cached background", () => {
+    const create = document.createElement.bind(document);
+    const created: HTMLElement[] = [];
+    vi.spyOn(document, "createElement").mockImplementation((tag: string) => {
+      const el = create(tag);
+      created.push(el);
+      return el;
+    });
+    renderGrid();
+    const background = created.find((el) => el instanceof HTMLCanvasElement && !el.isConnected) as HTMLCanvasElement;
+    const { fills } = canvasRecord(background);
+    expect(cellFill(fills, 0, GRID_3)).toBe(boardColors.wall);
+    expect(cellFill(fills, 14, GRID_3)).toBe(boardColors.wall);
+    expect(cellFill(fills, 6, GRID_3)).toBe(boardColors.cellLight);
+    expect(cellFill(fills, 7, GRID_3)).toBe(boardColors.cellDark);
+    expect(fills).toHaveLength(GRID_3 * GRID_3);
+  });
+
+  it("draws no fruit once the board is full", () => {
+    const { frame } = renderGrid({ gridSize: GRID_2, gameStates: wonGame, timeStep: 3 });
+    expect(frame.some((f) => f.style === boardColors.fruit)).toBe(false);
+    expect(frame).toHaveLength(4);
+  });
+
+  it("shows the moves and fruit eaten at the current step", () => {
+    renderGrid({ timeStep: 4 });
+    expect(screen.getByText("Moves: 4")).toBeInTheDocument();
+    expect(screen.getByText("Fruits: 2")).toBeInTheDocument();
+  });
+
+  it("freezes on the last move when the shared step is past the end of its game", () => {
+    const { frame } = renderGrid({ timeStep: 20 });
+    expect(screen.getByText("Moves: 7")).toBeInTheDocument();
+    expect(cellFill(frame, 16, GRID_3)).toBe(snakePalette(GRID_3)[0]);
+  });
+
+  it("redraws when the step changes", () => {
+    const { container, rerender } = render(<Grid gridSize={GRID_3} timeStep={0} gameStates={diedGame} />);
+    const record = canvasRecord(container.querySelector("canvas")!);
+    expect(cellFill(record.frame, 12, GRID_3)).toBe(snakePalette(GRID_3)[0]);
+    rerender(<Grid gridSize={GRID_3} timeStep={1} gameStates={diedGame} />);
+    expect(cellFill(record.frame, 13, GRID_3)).toBe(snakePalette(GRID_3)[0]);
+    expect(cellFill(record.frame, 12, GRID_3)).toBe(snakePalette(GRID_3)[1]);
+  });
+
+  it("shows a caption with the game's status", () => {
+    renderGrid({ timeStep: 7, label: "Slot 1: A*", color: "#34d399" });
+    expect(screen.getByText("Slot 1: A*")).toBeInTheDocument();
+    expect(screen.getByText("· Died")).toBeInTheDocument();
+  });
+
+  it("outlines the board and explains rule violations at the current step", () => {
+    const violations = [{ step: 2, rule: "move" as const, message: "Head jumped", cells: [8] }];
+    const { container } = render(<Grid gridSize={GRID_3} timeStep={2} gameStates={diedGame} violations={violations} />);
+    expect(container.querySelector("canvas")).toHaveClass("ring-rose-500");
+    expect(screen.getByText("⚠ Head jumped")).toBeInTheDocument();
+  });
+
+  it("renders an empty board before a game is loaded", () => {
+    const { frame } = renderGrid({ gameStates: [] });
+    expect(frame).toHaveLength(0);
+    expect(screen.getByText("Moves: 0")).toBeInTheDocument();
+  });
+
+  it("describes the board to screen readers", () => {
+    renderGrid({ timeStep: 4, label: "Slot 1: A*" });
+    expect(screen.getByRole("application")).toHaveAccessibleName(
+      "Slot 1: A*. 3x3 board at move 4: snake of length 3 with its head at row 1, column 1; fruit at row 3, column 3.");
+    expect(screen.getByRole("application")).toHaveAccessibleDescription(
+      "Use the arrow keys to explore the cells and Home to go to the head.");
+    expect(screen.getByRole("application")).toHaveAttribute("aria-roledescription", "board");
+  });
+
+  it("reads out the cells as the arrow keys move a cursor from the head", () => {
+    renderGrid({ timeStep: 4 });
+    const board = screen.getByRole("application");
+    fireEvent.focus(board);
+    expect(screen.getByText("Row 1, column 1: snake head")).toBeInTheDocument();
+    fireEvent.keyDown(board, { key: "ArrowRight" });
+    expect(screen.getByText("Row 1, column 2: snake body, segment 2 of 3")).toBeInTheDocument();
+    fireEvent.keyDown(board, { key: "ArrowUp" });
+    fireEvent.keyDown(board, { key: "ArrowUp" }); // stops at the wall
+    expect(screen.getByText("Row 0, column 2: wall")).toBeInTheDocument();
+    fireEvent.keyDown(board, { key: "Home" });
+    expect(screen.getByText("Row 1, column 1: snake head")).toBeInTheDocument();
+  });
+
+  it("keeps the arrow keys from reaching the replay shortcuts while focused", () => {
+    const onKey = vi.fn();
+    window.addEventListener("keydown", onKey);
+    renderGrid();
+    fireEvent.keyDown(screen.getByRole("application"), { key: "ArrowLeft" });
+    window.removeEventListener("keydown", onKey);
+    expect(onKey).not.toHaveBeenCalled();
+  });
+
+  it("draws with the theme it is given", () => {
+    const { frame } = renderGrid({ timeStep: 4, theme: highContrastBoardColors });
+    expect(cellFill(frame, 18, GRID_3)).toBe(highContrastBoardColors.fruit);
+    expect(cellFill(frame, 6, GRID_3)).toBe(snakePalette(GRID_3, highContrastBoardColors)[0]);
+  });
+
+  it("tints the cells the head has visited when the heatmap is on", () => {
+    const { frame } = renderGrid({ timeStep: 4, overlays: { heatmap: true, trail: false, fruit: false } });
+    const tinted = frame.filter((f) => f.style === boardColors.heatmap).map((f) => f.x / CELL + (f.y / CELL) * GRID_3);
+    expect(tinted.sort((a, b) => a - b)).toEqual([6, 7, 8, 12, 13]);
+  });
+});
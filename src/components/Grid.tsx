@@ -0,0 +1,215 @@
+/**
+ * File: Grid.tsx
+ * Description: Canvas rendering of one simulated snake game. The board scales
+ * to the available width, stays sharp on high-DPI screens and slides the snake
+ * smoothly between consecutive steps. Cells that break the rules of the game at
+ * the current step are outlined. A heatmap of visited cells, the head's recent
+ * trail and markers where fruit was collected can be drawn over the board and
+ * toggled per grid. For screen readers the board is described in
+ * text, and once focused its cells can be explored with the arrow keys.
+ */
+import { useEffect, useId, useMemo, useRef, useState, type JSX } from "react"
+import type { GameState } from "../types"
+import type { ReplayViolation } from "../replay/validate"
+import { boardColors, drawBackground, drawHighlights, drawPieces, snakePalette, type BoardTheme } from "../render/board"
+import { describeBoard, describeCell } from "../a11y/describe"
+import { styles } from "../styles"
+import {
+  drawFruitMarkers, drawHeatmap, drawTrail, fruitMarkers, headTrail, noOverlays, overlayLabels, visitCounts, visitSummary,
+  TRAIL_LENGTH, type BoardOverlays
+} from "../render/overlays"
+
+const MAX_CELL_PX = 32 // the original 2rem cells
+const MIN_CELL_PX = 6
+
+/**
+ * This function creates the grid that displays the simulated snake game.
+ * @param gridSize a number N representing the size of an NxN grid
+ * @param timeStep the current time *s* of the *s-th* step taken by the snake
+ * @param gameStates the array of states the snake will take for a given simulation
+ * @param stepMs the playback interval; moves between consecutive steps are animated within it
+ * @param violations rule violations found in the replay; those at the current step are highlighted
+ * @param label a color-coded caption above the board, e.g. the slot and agent
+ * @param color the color of the caption's marker
+ * @param theme the board colors
+ * @param overlays which replay overlays to draw
+ * @param onOverlaysChange called with the overlays to draw; when given, the grid shows buttons to toggle them
+ * @param heatmapScale the visit count drawn fully opaque, shared between grids so their heatmaps compare; this grid's own maximum if omitted
+ * @param trailLength how many of the latest moves the trail follows
+ * @returns JSX elements for this component
+ */
+export default function Grid({ gridSize, timeStep, gameStates, stepMs = 0, violations = [], label, color, theme = boardColors,
+    overlays = noOverlays, onOverlaysChange, heatmapScale, trailLength = TRAIL_LENGTH }:
+    { gridSize: number; timeStep: number; gameStates: GameState[]; stepMs?: number; violations?: ReplayViolation[];
+      label?: string; color?: string; theme?: BoardTheme; overlays?: BoardOverlays;
+      onOverlaysChange?: (overlays: BoardOverlays) => void; heatmapScale?: number; trailLength?: number }): JSX.Element {
+  const wrapperRef = useRef<HTMLDivElement>(null);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const backgroundRef = useRef<{ key: string, theme: BoardTheme, canvas: HTMLCanvasElement } | null>(null);
+  const lastDrawnRef = useRef<{ states: GameState[], step: number } | null>(null);
+  const [availablePx, setAvailablePx] = useState<number>(gridSize * MAX_CELL_PX);
+  // The cell explored with the arrow keys while the board has focus
+  const [cursor, setCursor] = useState<number | null>(null);
+  const hintId = useId();
+
+  // When 2 grids are used and one game ends early, freeze on the last move
+  const effectiveStep = timeStep >= gameStates.length ? gameStates.length - 1 : timeStep;
+  const cell = Math.max(MIN_CELL_PX, Math.min(MAX_CELL_PX, Math.floor(availablePx / gridSize)));
+  const boardPx = cell * gridSize;
+  const stepViolations = violations.filter((v) => v.step === effectiveStep);
+  const highlightKey = stepViolations.flatMap((v) => v.cells).join(","); // stable effect dependency
+  // Recounted per step rather than per animation frame
+  const visits = useMemo(() => (overlays.heatmap ? visitCounts(gameStates, effectiveStep, gridSize) : null),
+    [overlays.heatmap, gameStates, effectiveStep, gridSize]);
+  const trail = useMemo(() => (overlays.trail ? headTrail(gameStates, effectiveStep, trailLength) : null),
+    [overlays.trail, gameStates, effectiveStep, trailLength]);
+  const fruits = useMemo(() => (overlays.fruit ? fruitMarkers(gameStates, effectiveStep) : null),
+    [overlays.fruit, gameStates, effectiveStep]);
+
+  useEffect(() => { // track the width the board may use, minus its padding
+    const wrapper = wrapperRef.current;
+    if (!wrapper) return;
+    const observer = new ResizeObserver(([entry]) => setAvailablePx(Math.floor(entry.contentRect.width) - 32));
+    observer.observe(wrapper);
+    return () => observer.disconnect();
+  }, []);
+
+  useEffect(() => { // draw the current step, animating from the previous one
+    const canvas = canvasRef.current;
+    const ctx = canvas?.getContext("2d");
+    if (!canvas || !ctx) return;
+
+    const dpr = window.devicePixelRatio || 1;
+    const devicePx = Math.round(boardPx * dpr);
+    if (canvas.width !== devicePx) { // resizing clears the canvas, so only do it when needed
+      canvas.width = devicePx;
+      canvas.height = devicePx;
+    }
+
+    // The walls and checkerboard only change with the board size, so cache them
+    const key = `${gridSize}|${cell}|${dpr}`;
+    if (backgroundRef.current?.key !== key || backgroundRef.current.theme !== theme) {
+      const bg = document.createElement("canvas");
+      bg.width = canvas.width;
+      bg.height = canvas.height;
+      const bgCtx = bg.getContext("2d")!;
+      bgCtx.scale(dpr, dpr);
+      drawBackground(bgCtx, gridSize, cell, theme);
+      backgroundRef.current = { key, theme, canvas: bg };
+    }
+    const background = backgroundRef.current.canvas;
+
+    const state = gameStates[effectiveStep];
+    const last = lastDrawnRef.current;
+    const previous = last && last.states === gameStates && last.step === effectiveStep - 1 ? gameStates[last.step] : undefined;
+    lastDrawnRef.current = { states: gameStates, step: effectiveStep };
+    const palette = snakePalette(gridSize, theme);
+    const duration = previous && stepMs > 0 ? Math.min(stepMs * 0.8, 200) : 0;
+    const highlights = highlightKey === "" ? [] : highlightKey.split(",").map(Number);
+
+    const paint = (progress: number) => {
+      ctx.setTransform(1, 0, 0, 1, 0, 0);
+      ctx.drawImage(background, 0, 0);
+      ctx.setTransform(dpr, 0, 0, dpr, 0, 0);
+      if (visits) drawHeatmap(ctx, gridSize, cell, visits, theme.heatmap, heatmapScale);
+      if (fruits) drawFruitMarkers(ctx, gridSize, cell, fruits, theme.fruit);
+      if (state) drawPieces(ctx, { gridSize, cell, state, previous, progress, palette, theme });
+      if (trail) drawTrail(ctx, gridSize, cell, trail, theme.trail);
+      if (progress === 1) drawHighlights(ctx, gridSize, cell, highlights, theme.highlight);
+      if (cursor !== null) drawHighlights(ctx, gridSize, cell, [cursor], theme.cursor);
+    };
+
+    // Paint right away so a resized canvas is never blank, then animate from the first frame's time
+    let frame = 0;
+    let start: number | undefined;
+    const tick = (now: number) => {
+      start ??= now;
+      const progress = Math.min(1, (now - start) / duration);
+      paint(progress);
+      if (progress < 1) frame = requestAnimationFrame(tick);
+    };
+    paint(duration > 0 ? 0 : 1);
+    if (duration > 0) frame = requestAnimationFrame(tick);
+    return () => cancelAnimationFrame(frame);
+  }, [gameStates, effectiveStep, gridSize, cell, boardPx, stepMs, highlightKey, theme, cursor, visits, trail, fruits,
+    heatmapScale]);
+
+  const gridStats = "pl-4 -mt-4 pb-2";
+  const coverage = visits && visitSummary(visits, gridSize);
+  const fruitMoves = fruits && fruits.length > 0
+    ? (fruits.reduce((sum, f) => sum + f.collected - f.spawned, 0) / fruits.length).toFixed(1) : null;
+  const current = gameStates[effectiveStep];
+  const fruitCount = current ? current.snake.length - 1 : 0;
+  let status = gameStates.length === 0 ? "No game loaded" : "Playing";
+  if (current?.won) status = "Won";
+  else if (current?.died) status = "Died";
+
+  // Arrow keys move the cursor within the board, Home jumps to the head; the
+  // replay shortcuts on the window do not see these keys while the board has focus
+  const onKeyDown = (e: React.KeyboardEvent<HTMLCanvasElement>) => {
+    const from = cursor ?? current?.snake[0] ?? gridSize + 1;
+    const row = Math.floor(from / gridSize);
+    const col = from % gridSize;
+    const moves: Record<string, [number, number]> = { ArrowUp: [-1, 0], ArrowDown: [1, 0], ArrowLeft: [0, -1], ArrowRight: [0, 1] };
+    if (e.key in moves) {
+      const [dr, dc] = moves[e.key];
+      const r = Math.max(0, Math.min(gridSize - 1, row + dr));
+      const c = Math.max(0, Math.min(gridSize - 1, col + dc));
+      setCursor(r * gridSize + c);
+    } else if (e.key === "Home") {
+      setCursor(current?.snake[0] ?? gridSize + 1);
+    } else return;
+    e.preventDefault();
+    e.stopPropagation();
+  };
+
+  return (
+    <>
+      {/* The grid itself; the wrapper takes an equal share of the row so the board can size to it */}
+      <div ref={wrapperRef} className="flex min-w-0 flex-1 justify-center">
+        <div role="group" aria-label={label ?? "Board"}>
+          {label && (
+            <p className="flex items-center gap-2 px-4 pt-2 text-sm font-semibold">
+              <span className="h-2 w-2 rounded-full" style={{ backgroundColor: color }} />
+              {label}
+              <span className="font-normal">· {status}</span>
+            </p>
+          )}
+          <div className="p-4">
+            <canvas ref={canvasRef} style={{ width: boardPx, height: boardPx }}
+              className={`block focus-visible:outline-4 focus-visible:outline-offset-2 focus-visible:outline-sky-300 ${stepViolations.length > 0 ? "ring-4 ring-rose-500" : ""}`}
+              role="application"
+              aria-roledescription="board"
+              tabIndex={0}
+              aria-label={`${label ? `${label}. ` : ""}${describeBoard(current, gridSize, Math.max(0, effectiveStep))}`}
+              aria-describedby={hintId}
+              onKeyDown={onKeyDown}
+              onFocus={() => setCursor(current?.snake[0] ?? gridSize + 1)}
+              onBlur={() => setCursor(null)} />
+            <span id={hintId} className="sr-only">Use the arrow keys to explore the cells and Home to go to the head.</span>
+            {/* Read out the explored cell */}
+            <p className="sr-only" aria-live="polite">{cursor !== null ? describeCell(current, cursor, gridSize) : ""}</p>
+          </div>
+          <p className={gridStats}>Moves: {Math.max(0, effectiveStep)}</p>
+          <p className={gridStats}>Fruits: {fruitCount}</p>
+          {/* Overlay summaries, to compare agents at a glance */}
+          {coverage && (
+            <p className={`${gridStats} text-sm`}>Visited {coverage.visited}/{coverage.cells} cells, at most {coverage.max}× on one</p>
+          )}
+          {fruitMoves && <p className={`${gridStats} text-sm`}>{fruitMoves} moves per fruit from spawn to collection</p>}
+          {onOverlaysChange && (
+            <div role="group" aria-label={`${label ?? "Board"} overlays`} className="flex gap-1 px-4 pb-2">
+              {(Object.keys(overlayLabels) as (keyof BoardOverlays)[]).map((key) => (
+                <button key={key} className={styles.btnToggle} aria-pressed={overlays[key]} title={overlayLabels[key].title}
+                  onClick={() => onOverlaysChange({ ...overlays, [key]: !overlays[key] })}>{overlayLabels[key].label}</button>
+              ))}
+            </div>
+          )}
+          {stepViolations.map((v, i) => (
+            <p key={i} className={`${gridStats} max-w-xs text-sm font-semibold text-rose-800`}>⚠ {v.message}</p>
+          ))}
+        </div>
+      </div>
+    </>
+  );
+}
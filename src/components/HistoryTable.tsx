@@ -0,0 +1,258 @@
+/**
+ * File: HistoryTable.tsx
+ * Description: The simulation history table with sorting, filters, search,
+ * pagination and multi-select bulk actions.
+ */
+import { useState, type JSX, type KeyboardEvent } from "react"
+import type { TableResult } from "../types"
+import { styles } from "../styles"
+import { HUMAN_AGENT } from "../agents/catalog"
+import { MAX_SLOTS } from "../comparison/slots"
+import SlotPicker from "./SlotPicker"
+import {
+  distinctValues, emptyFilters, filterHistory, paginateHistory, sortHistory,
+  type HistoryFilters, type SortDirection, type SortKey
+} from "../history/historyQuery"
+
+const pageSizeOptions = [10, 25, 50, 100]
+
+const columns: { key: SortKey, label: string }[] = [
+  { key: "timestamp", label: "Time" },
+  { key: "agent", label: "Agent" },
+  { key: "gridSize", label: "Grid Size" },
+  { key: "train", label: "Train Episodes" },
+  { key: "seed", label: "Seed" },
+  { key: "moveCount", label: "Move Count" },
+  { key: "fruitCount", label: "Fruit Count" },
+  { key: "finalLength", label: "Final Length" },
+  { key: "avgMove", label: "Avg. Moves Per Fruit" },
+  { key: "outcome", label: "Outcome" }
+]
+
+/**
+ * Describes where a run came from, for the hover text of its row.
+ * @param r a history row
+ * @returns one line per known detail
+ */
+function runDetails(r: TableResult): string {
+  const lines = [`Run ${r.id}`];
+  if (r.timestamp) lines.push(`Finished ${new Date(r.timestamp).toLocaleString()}`);
+  if (r.meta) {
+    lines.push(`Source ${r.meta.source} (${r.meta.durationMs} ms)`);
+    Object.entries(r.meta.response).forEach(([k, v]) => lines.push(`${k}: ${JSON.stringify(v)}`));
+  }
+  return lines.join("\n");
+}
+
+/**
+ * This function creates the history table.
+ * @param results the simulation history, newest first
+ * @param slotCount the number of comparison slots
+ * @param onReplay called with a row and the slot index to replay it in; `slotCount` adds a slot
+ * @param onDelete called with the ids of the rows to delete
+ * @param onCompare called with the selected rows to load them into one slot each
+ * @param onRerun called with a row to simulate it again with the same settings and seed
+ * @param onPlay called with a row to play its board yourself against the same fruit
+ * @param onExport called with a row to save its replay as an image, GIF or video
+ * @returns JSX elements for this component
+ */
+export default function HistoryTable({ results, slotCount, onReplay, onDelete, onCompare, onRerun, onPlay, onExport }:
+    { results: TableResult[],
+      slotCount: number,
+      onReplay: (result: TableResult, slot: number) => void,
+      onDelete: (ids: string[]) => void,
+      onCompare: (results: TableResult[]) => void,
+      onRerun: (result: TableResult) => void,
+      onPlay: (result: TableResult) => void,
+      onExport: (result: TableResult) => void }): JSX.Element {
+  const [filters, setFilters] = useState<HistoryFilters>(emptyFilters);
+  const [sortKey, setSortKey] = useState<SortKey | null>(null);
+  const [direction, setDirection] = useState<SortDirection>("desc");
+  const [page, setPage] = useState<number>(0);
+  const [pageSize, setPageSize] = useState<number>(25);
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [activeRow, setActiveRow] = useState<string | null>(null);
+
+  const rows = sortHistory(filterHistory(results, filters), sortKey, direction);
+  const { rows: pageRows, page: currentPage, pageCount } = paginateHistory(rows, page, pageSize);
+  // Ignore selections of rows that have since been deleted
+  const selectedRows = results.filter((r) => selected.has(r.id));
+  const allOnPageSelected = pageRows.length > 0 && pageRows.every((r) => selected.has(r.id));
+  // Only one row is in the tab order; the arrow keys move between rows
+  const tabRow = pageRows.some((r) => r.id === activeRow) ? activeRow : pageRows[0]?.id;
+
+  const setFilter = (field: keyof HistoryFilters, value: string) => {
+    setFilters((f) => ({ ...f, [field]: value }));
+    setPage(0);
+  };
+
+  // Clicking a column sorts by it; clicking again flips the direction, a third time restores newest first
+  const toggleSort = (key: SortKey) => {
+    if (sortKey !== key) {
+      setSortKey(key);
+      setDirection("desc");
+    } else if (direction === "desc") {
+      setDirection("asc");
+    } else {
+      setSortKey(null);
+    }
+  };
+
+  const toggleRow = (id: string) => setSelected((s) => {
+    const next = new Set(s);
+    if (next.has(id)) next.delete(id);
+    else next.add(id);
+    return next;
+  });
+
+  const togglePage = () => setSelected((s) => {
+    const next = new Set(s);
+    pageRows.forEach((r) => (allOnPageSelected ? next.delete(r.id) : next.add(r.id)));
+    return next;
+  });
+
+  const focusRow = (row: Element | null | undefined) => {
+    if (!(row instanceof HTMLElement) || !row.dataset.id) return false;
+    setActiveRow(row.dataset.id);
+    row.focus();
+    return true;
+  };
+
+  // Keys on a focused row; the player's shortcuts do not see them
+  const onRowKeyDown = (e: KeyboardEvent<HTMLTableRowElement>, res: TableResult) => {
+    if (e.target !== e.currentTarget) return; // a button or checkbox in the row has focus
+    const row = e.currentTarget;
+    const rows = row.parentElement?.children;
+    if (e.key === "ArrowDown") focusRow(row.nextElementSibling);
+    else if (e.key === "ArrowUp") focusRow(row.previousElementSibling);
+    else if (e.key === "Home") focusRow(rows?.[0]);
+    else if (e.key === "End") focusRow(rows?.[rows.length - 1]);
+    else if (e.key === "Enter") onReplay(res, 0);
+    else if (e.key === " ") toggleRow(res.id);
+    else if (e.key === "Delete") {
+      // The neighbouring row stays mounted, so it keeps focus once this one is gone
+      if (!focusRow(row.nextElementSibling)) focusRow(row.previousElementSibling);
+      onDelete([res.id]);
+    } else return;
+    e.preventDefault();
+    e.stopPropagation();
+  };
+
+  const filterSelect = (field: "agent" | "gridSize" | "train" | "outcome", label: string) => (
+    <label className="text-xs text-white">
+      {label}:
+      <select className={`${styles.select} ml-1 text-black`} value={filters[field]} onChange={(e) => setFilter(field, e.target.value)}>
+        <option value="">All</option>
+        {distinctValues(results, (r) => r[field]).map((v) => <option key={v} value={v}>{v}</option>)}
+      </select>
+    </label>
+  );
+
+  return (
+    <>
+      {/* Filters and bulk actions */}
+      <div className="mb-3 flex flex-wrap items-center gap-3">
+        {filterSelect("agent", "Agent")}
+        {filterSelect("gridSize", "Grid")}
+        {filterSelect("train", "Training")}
+        {filterSelect("outcome", "Outcome")}
+        <input
+          className={`${styles.input} text-sm`}
+          placeholder="Search (numbers match seeds)..."
+          value={filters.search}
+          onChange={(e) => setFilter("search", e.target.value)}
+        />
+        <div className="ml-auto flex items-center gap-2">
+          <span className="text-xs text-white">{selectedRows.length} selected</span>
+          <button className={styles.btnPrimarySm} disabled={selectedRows.length === 0 || selectedRows.length > MAX_SLOTS}
+            title={`Load up to ${MAX_SLOTS} selected runs side by side, one per slot`}
+            onClick={() => onCompare(selectedRows)}>Compare</button>
+          <button className={styles.btnSecondarySm} disabled={selectedRows.length === 0}
+            onClick={() => { onDelete(selectedRows.map((r) => r.id)); setSelected(new Set()); }}>Delete selected</button>
+        </div>
+      </div>
+
+      <div className="max-h-95 overflow-y-auto">
+        <table className="min-w-full mb-4 border border-black text-white">
+          <caption className="sr-only">
+            Simulation history. On a row, Up and Down move between runs, Enter replays it in slot 1,
+            Space selects it and Delete removes it.
+          </caption>
+          <thead>
+            <tr className="divide-x bg-gray-200 text-xs uppercase tracking-wide text-black">
+              <th scope="col" className="px-2 py-3">
+                <input type="checkbox" checked={allOnPageSelected} onChange={togglePage} title="Select this page" aria-label="Select this page" />
+              </th>
+              {columns.map((col) => (
+                <th key={col.key} scope="col" className="px-4 py-3"
+                  aria-sort={sortKey === col.key ? (direction === "asc" ? "ascending" : "descending") : undefined}>
+                  <button className="uppercase" onClick={() => toggleSort(col.key)}>
+                    {col.label}{sortKey === col.key ? (direction === "asc" ? " ▲" : " ▼") : ""}
+                  </button>
+                </th>
+              ))}
+              <th scope="col" className="px-4 py-3">Actions</th>
+            </tr>
+          </thead>
+          {/* Table rows */}
+          <tbody className="divide-y divide-white/5 bg-cyan-900/80">
+            {pageRows.map((res, i) => (
+              <tr key={res.id} data-id={res.id} title={runDetails(res)} tabIndex={res.id === tabRow ? 0 : -1}
+                className={`divide-x ${i % 2 ? "bg-slate-500/50" : ""} focus-visible:outline-2 focus-visible:-outline-offset-2 focus-visible:outline-sky-300`}
+                onFocus={(e) => e.target === e.currentTarget && setActiveRow(res.id)}
+                onKeyDown={(e) => onRowKeyDown(e, res)}>
+                <td className="px-2 py-3 text-center border-r border-black">
+                  <input type="checkbox" checked={selected.has(res.id)} onChange={() => toggleRow(res.id)}
+                    aria-label={`Select the ${res.agent} run on ${res.gridSize}`} />
+                </td>
+                <td className={styles.tableCell}>{res.timestamp ? new Date(res.timestamp).toLocaleTimeString() : "-"}</td>
+                <td className={styles.tableCell}>{res.agent}</td>
+                <td className={styles.tableCell}>{res.gridSize}</td>
+                <td className={styles.tableCell}>{res.train}</td>
+                <td className={styles.tableCell}>{res.seed || "-"}</td>
+                <td className={styles.tableCell}>{res.moveCount}</td>
+                <td className={styles.tableCell}>{res.fruitCount}</td>
+                <td className={styles.tableCell}>{res.finalLength}</td>
+                <td className={styles.tableCell}>{res.avgMove}</td>
+                <td className={styles.tableCell}>
+                  <span className={res.outcome === "Won" ? styles.outcomeWon : styles.outcomeLost}>
+                    {res.outcome}
+                  </span>
+                </td>
+                {/* Replay, re-run, play, export and delete buttons */}
+                <td className={styles.tableCellLast}>
+                  <div className="flex gap-2">
+                    <SlotPicker slotCount={slotCount} onPick={(slot) => onReplay(res, slot)} />
+                    <button className={styles.btnSecondarySm} disabled={res.seed === "" || res.agentCode === HUMAN_AGENT}
+                      title={res.agentCode === HUMAN_AGENT ? "Games played by hand cannot be simulated"
+                        : res.seed === "" ? "This run was recorded without its seed" : "Simulate this run again with the same seed"}
+                      onClick={() => onRerun(res)}>Re-run</button>
+                    <button className={styles.btnSecondarySm} title="Play this board yourself with the same fruit"
+                      onClick={() => onPlay(res)}>Play</button>
+                    <button className={styles.btnSecondarySm} title="Save this replay as a PNG, GIF or WebM"
+                      onClick={() => onExport(res)}>Export</button>
+                    <button className={styles.btnSecondarySm} title="Delete this run" onClick={() => onDelete([res.id])}>Delete</button>
+                  </div>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+        {rows.length === 0 && (
+          <p className="pb-4 text-center text-sm text-white/80">{results.length === 0 ? "No runs yet" : "No runs match the filters"}</p>
+        )}
+      </div>
+
+      {/* Pagination */}
+      <div className="flex items-center justify-end gap-2 text-xs text-white">
+        <span>{rows.length} of {results.length} runs</span>
+        <select className={`${styles.select} text-black`} value={pageSize} onChange={(e) => { setPageSize(parseInt(e.target.value)); setPage(0); }}>
+          {pageSizeOptions.map((n) => <option key={n} value={n}>{n} / page</option>)}
+        </select>
+        <button className={styles.btnSlate} disabled={currentPage === 0} onClick={() => setPage(currentPage - 1)}>Prev</button>
+        <span>Page {currentPage + 1} of {pageCount}</span>
+        <button className={styles.btnSlate} disabled={currentPage >= pageCount - 1} onClick={() => setPage(currentPage + 1)}>Next</button>
+      </div>
+    </>
+  );
+}
@@ -0,0 +1,130 @@
+/**
+ * File: HumanPlayPanel.tsx
+ * Description: Play snake yourself on the local engine, on any board size,
+ * optionally against the fruit sequence of a recorded run.
+ */
+import { useState, type JSX } from "react"
+import type { TableResult } from "../types"
+import type { HumanGame } from "../hooks/useHumanGame"
+import { replayFruits } from "../engine/engine"
+import { randomSeed } from "../results"
+import { styles } from "../styles"
+import Grid from "./Grid"
+import type { BoardTheme } from "../render/board"
+
+const MIN_HUMAN_GRID = 3
+const MAX_HUMAN_GRID = 20
+
+const tickOptions = [
+  { label: "Slow", ms: 350 },
+  { label: "Normal", ms: 220 },
+  { label: "Fast", ms: 130 }
+]
+
+/**
+ * This function creates the human play panel.
+ * @param game the human game from useHumanGame
+ * @param defaultGridSize the initially selected interior board size
+ * @param challenge a recorded run whose board size and fruit to play against, if any
+ * @param onClearChallenge called to go back to a free game
+ * @param theme the board colors
+ * @returns JSX elements for this component
+ */
+export default function HumanPlayPanel({ game, defaultGridSize, challenge, onClearChallenge, theme }:
+    { game: HumanGame,
+      defaultGridSize: number,
+      challenge: TableResult | null,
+      onClearChallenge: () => void,
+      theme?: BoardTheme }): JSX.Element {
+  const [size, setSize] = useState<string>(String(defaultGridSize));
+  const [seed, setSeed] = useState<string>("");
+  const [tickMs, setTickMs] = useState<number>(tickOptions[1].ms);
+
+  const sizeNumber = Number(size);
+  const sizeValid = Number.isInteger(sizeNumber) && sizeNumber >= MIN_HUMAN_GRID && sizeNumber <= MAX_HUMAN_GRID;
+  const seedValid = seed === "" || /^(0|[1-9]\d{0,2})$/.test(seed);
+  const active = game.status === "ready" || game.status === "running";
+  const last = game.states[game.states.length - 1];
+
+  const start = () => {
+    if (challenge) {
+      game.start({
+        gridSize: challenge.replaySize - 2,
+        seed: Number(challenge.seed || randomSeed()),
+        tickMs,
+        ...replayFruits(challenge.replay)
+      });
+    } else {
+      game.start({ gridSize: sizeNumber, seed: Number(seed || randomSeed()), tickMs });
+    }
+  };
+
+  let message = "Pick a board and press Start";
+  if (game.status === "ready") message = "Press an arrow key or WASD to start moving; Esc gives up";
+  if (game.status === "running") message = "Arrow keys or WASD steer; Esc gives up";
+  if (game.status === "finished" && last) {
+    message = `${last.won ? "You won" : "Game over"} after ${game.states.length - 1} moves with ${last.snake.length - 1} fruit; the run was added to the history`;
+  }
+
+  return (
+    <section id="human-play" className={`${styles.card} mt-2 p-5`}>
+      <div className="mb-4 flex items-center justify-between">
+        <h3 className={styles.sectionTitle}>Play yourself</h3>
+        <span className="text-xs text-white/80">Your games are recorded as the "Human" agent</span>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-4">
+        {challenge ? (
+          <span className="text-sm">
+            Same board and fruit as the {challenge.agent} run on {challenge.gridSize}
+            {challenge.seed && ` (seed ${challenge.seed})`}
+            <button className={`${styles.btnSecondarySm} ml-2`} disabled={active} onClick={onClearChallenge}>Free play</button>
+          </span>
+        ) : (
+          <>
+            <label className={styles.label}>
+              Grid Size:
+              <input className={`${styles.input} ml-2 w-14`} type="number" min={MIN_HUMAN_GRID} max={MAX_HUMAN_GRID}
+                value={size} disabled={active} onChange={(e) => setSize(e.target.value)} />
+            </label>
+            <label className={styles.label}>
+              Seed:
+              <input className={`${styles.input} ml-2 w-16`} inputMode="numeric" placeholder="random"
+                value={seed} disabled={active} onChange={(e) => setSeed(e.target.value)} />
+            </label>
+          </>
+        )}
+        <label className={styles.label}>
+          Speed:
+          <select className={`${styles.select} ml-2`} value={tickMs} disabled={active}
+            onChange={(e) => setTickMs(parseInt(e.target.value))}>
+            {tickOptions.map((o) => <option key={o.ms} value={o.ms}>{o.label}</option>)}
+          </select>
+        </label>
+        {active ? (
+          <button className={styles.btnPrimary} onClick={game.stop}>Give up</button>
+        ) : (
+          <button className={styles.btnPrimary} disabled={!challenge && (!sizeValid || !seedValid)} onClick={start}>
+            {game.status === "finished" ? "Play again" : "Start"}
+          </button>
+        )}
+        {!challenge && !sizeValid && <span className="text-sm text-rose-800">Grid size must be {MIN_HUMAN_GRID}-{MAX_HUMAN_GRID}</span>}
+        {!challenge && !seedValid && <span className="text-sm text-rose-800">Seed must be 0-999</span>}
+      </div>
+
+      <p className="mt-2 text-sm text-white" aria-live="polite">{message}</p>
+
+      {game.status !== "idle" && game.options && (
+        <div className="mt-2 flex rounded-lg border border-black/10 bg-gray-400/70 p-2">
+          <Grid
+            gridSize={game.options.gridSize + 2}
+            timeStep={game.states.length - 1}
+            gameStates={game.states}
+            stepMs={game.options.tickMs}
+            theme={theme}
+          />
+        </div>
+      )}
+    </section>
+  );
+}
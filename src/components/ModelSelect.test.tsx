@@ -0,0 +1,113 @@
+import { useState } from "react"
+import { describe, expect, it, vi } from "vitest"
+import { render, screen } from "@testing-library/react"
+import userEvent from "@testing-library/user-event"
+import ModelSelect from "./ModelSelect"
+import { bundledCatalog } from "../agents/catalog"
+
+// ModelSelect with its state held like App holds it
+function Harness({ initialAgent = "a*", initialEps = "N/A", resetBoard = () => {} }:
+    { initialAgent?: string, initialEps?: string, resetBoard?: () => void }) {
+  const [agent, setAgent] = useState(initialAgent);
+  const [eps, setEps] = useState(initialEps);
+  const [seed, setSeed] = useState("");
+  return (
+    <>
+      <ModelSelect catalog={bundledCatalog} gridSize={5} agent={agent} eps={eps} seed={seed}
+        setAgent={setAgent} setEps={setEps} setSeed={setSeed} resetBoard={resetBoard} />
+      <output data-testid="state">{`${agent}|${eps}|${seed}`}</output>
+    </>
+  );
+}
+
+const state = () => screen.getByTestId("state").textContent;
+
+describe("ModelSelect seed input", () => {
+  it("accepts numbers from 0 to 999", async () => {
+    render(<Harness />);
+    const input = screen.getByLabelText("Seed Value:");
+    await userEvent.type(input, "999");
+    expect(state()).toBe("a*|N/A|999");
+    await userEvent.clear(input);
+    await userEvent.type(input, "0");
+    expect(state()).toBe("a*|N/A|0");
+  });
+
+  it("ignores letters, signs and decimals", async () => {
+    render(<Harness />);
+    await userEvent.type(screen.getByLabelText("Seed Value:"), "4-e.2");
+    expect(state()).toBe("a*|N/A|42");
+  });
+
+  it("rejects leading zeros and values over 999", async () => {
+    render(<Harness />);
+    const input = screen.getByLabelText("Seed Value:");
+    await userEvent.type(input, "05");
+    expect(state()).toBe("a*|N/A|0");
+    await userEvent.clear(input);
+    await userEvent.type(input, "1234");
+    expect(state()).toBe("a*|N/A|123");
+    expect(input).toHaveValue("123");
+  });
+
+  it("can be cleared to pick a random seed", async () => {
+    render(<Harness />);
+    const input = screen.getByLabelText("Seed Value:");
+    await userEvent.type(input, "7");
+    await userEvent.clear(input);
+    expect(state()).toBe("a*|N/A|");
+  });
+
+  it("is hidden without a seed setter", () => {
+    render(<ModelSelect catalog={bundledCatalog} agent="a*" eps="N/A" setAgent={vi.fn()} setEps={vi.fn()} resetBoard={vi.fn()} />);
+    expect(screen.queryByLabelText("Seed Value:")).not.toBeInTheDocument();
+  });
+});
+
+describe("ModelSelect training amount", () => {
+  it("defaults to the first training amount when switching to a trained agent", async () => {
+    render(<Harness />);
+    await userEvent.selectOptions(screen.getByLabelText("Select Agent:"), "deep-ql");
+    expect(state()).toBe("deep-ql|1k|");
+    expect(screen.getByLabelText("Training Amount:")).toHaveValue("1k");
+  });
+
+  it("resets to N/A for agents without training", async () => {
+    render(<Harness initialAgent="apx-ql" initialEps="75k" />);
+    await userEvent.selectOptions(screen.getByLabelText("Select Agent:"), "a*");
+    expect(state()).toBe("a*|N/A|");
+    expect(screen.queryByLabelText("Training Amount:")).not.toBeInTheDocument();
+  });
+
+  it("keeps a training amount the agent offers", () => {
+    render(<Harness initialAgent="apx-ql" initialEps="75k" />);
+    expect(state()).toBe("apx-ql|75k|");
+  });
+
+  it("replaces a training amount the agent does not offer", () => {
+    render(<Harness initialAgent="deep-ql" initialEps="75k" />);
+    expect(state()).toBe("deep-ql|1k|");
+  });
+
+  it("clears the board when the agent or training amount changes", async () => {
+    const resetBoard = vi.fn();
+    render(<Harness initialAgent="apx-ql" initialEps="50k" resetBoard={resetBoard} />);
+    await userEvent.selectOptions(screen.getByLabelText("Training Amount:"), "100k");
+    await userEvent.selectOptions(screen.getByLabelText("Select Agent:"), "a*");
+    expect(resetBoard).toHaveBeenCalledTimes(2);
+  });
+});
+
+describe("ModelSelect agent list", () => {
+  it("disables unavailable agents and those that cannot play the board", () => {
+    render(<ModelSelect catalog={bundledCatalog} gridSize={5} agent="a*" eps="N/A" setAgent={vi.fn()} setEps={vi.fn()} resetBoard={vi.fn()} />);
+    expect(screen.getByRole("option", { name: /Q-Learning Agent/ })).toBeDisabled();
+    expect(screen.getByRole("option", { name: /Hamiltonian cycle/ })).toBeDisabled(); // odd board
+    expect(screen.getByRole("option", { name: "A* Agent" })).toBeEnabled();
+  });
+
+  it("explains why the selected agent cannot play", () => {
+    render(<ModelSelect catalog={bundledCatalog} gridSize={4} agent="a*" eps="N/A" setAgent={vi.fn()} setEps={vi.fn()} resetBoard={vi.fn()} />);
+    expect(screen.getByText("Cannot play a 4x4 board")).toBeInTheDocument();
+  });
+});
@@ -0,0 +1,126 @@
+/**
+ * File: ModelSelect.tsx
+ * Description: Agent, training amount and seed selectors for one grid.
+ */
+import { useEffect, useRef, type JSX } from "react"
+import type { AgentInfo } from "../types"
+import { styles } from "../styles"
+import { agentIssue, findAgent } from "../agents/catalog"
+
+/**
+ * This function creates the model selectors for the agents, including selectors
+ * and text input. 
+ * @param catalog the agents to choose from; unavailable ones are listed but disabled
+ * @param gridSize the interior board size N being played, to disable agents that cannot play it
+ * @param agent a string of the current model type 
+ * @param eps the number of training episodes for the model
+ * @param seed a string number for random seeding (optional)
+ * @param setAgent a setState function for the agent variable
+ * @param setEps a setState function for the eps variable
+ * @param setSeed a setState function for the seed variable; the seed input is hidden without it
+ * @param resetBoard an anonymous function for clearing the board and related states/variables
+ * @param idPrefix a prefix keeping element ids unique when several selectors are shown
+ * @returns JSX elements for this component
+ */
+export default function ModelSelect({catalog, gridSize, agent, eps, seed = "", setAgent, setEps, setSeed, resetBoard, idPrefix = ""}:
+      {catalog:AgentInfo[],
+      gridSize?:number,
+      agent:string, 
+      eps:string,
+      seed?:string,
+      setAgent:React.Dispatch<React.SetStateAction<string>>,
+      setEps:React.Dispatch<React.SetStateAction<string>>,
+      setSeed?:React.Dispatch<React.SetStateAction<string>>,
+      resetBoard:()=>void,
+      idPrefix?:string}): JSX.Element {
+
+  const info = findAgent(catalog, agent);
+  const trainingOptions = info?.trainingOptions ?? [];
+  const issue = info ? agentIssue(info, gridSize) : "Not in the agent catalog";
+
+  // The latest training amount and its setter, which parents recreate on every render
+  const latest = useRef({ eps, setEps });
+  useEffect(() => { latest.current = { eps, setEps }; });
+
+  // Set default episode count when switching agent types or when the catalog changes
+  useEffect(() => {
+    const { eps, setEps } = latest.current;
+    const options = findAgent(catalog, agent)?.trainingOptions ?? [];
+    if (options.length === 0) { if (eps !== "N/A") setEps("N/A"); }
+    else if (!options.includes(eps)) setEps(options[0]);
+  }, [agent, catalog]);
+
+  // Restrict the seed inputs to numerical values from [0, 999]
+  const onChange: React.ChangeEventHandler<HTMLInputElement> = (e) => {
+    if (!setSeed) return;
+    const value = e.target.value;
+    if (value === '') {
+      setSeed('');
+      return;
+    }
+    // digits only (blocks '-', 'e', '.')
+    if (!/^\d+$/.test(value)) {return;}
+     // no leading zeros (except "0")
+    if (value.length > 1 && value.startsWith('0')) {return;}
+    
+    const n = Number(value);
+    if (n > 999) {
+      e.target.value = seed;
+      return;
+    }
+    setSeed(value);
+  };
+
+
+  return (
+    <>
+      <div className="grid grid-cols-2 gap-2">
+        {/* Model Selection */}
+        <label htmlFor={`${idPrefix}agent-type`} className={styles.label}>Select Agent:</label>
+        <select className={styles.select} id={`${idPrefix}agent-type`} value={agent} onChange={(e) => { resetBoard(); setAgent(e.target.value); }}>
+          {catalog.filter((a) => !a.local).map((a) => agentOption(a, gridSize))}
+          {/* Reference agents that run in the browser, without the backend */}
+          <optgroup label="In browser">
+            {catalog.filter((a) => a.local).map((a) => agentOption(a, gridSize))}
+          </optgroup>
+        </select>
+
+        {/* Episode Count Selection */}
+        <label htmlFor={`${idPrefix}episode-count`} className={styles.label}>Training Amount:</label>
+        {/* Untrained agents such as A* have no training amount */}
+        {trainingOptions.length === 0 ? (
+          <p>N/A</p>
+        ) : (
+          <select className={styles.select} id={`${idPrefix}episode-count`} value={eps} onChange={(e) => { resetBoard(); setEps(e.target.value); }}>
+            {trainingOptions.map((t) => <option key={t} value={t}>{t} eps</option>)}
+          </select>
+        )}
+
+        {/* Optional Seed Input */}
+        {setSeed && (
+          <>
+            <label htmlFor={`${idPrefix}seed-input`} className={styles.label}>Seed Value:</label>
+            <input type="text" inputMode="numeric" value={seed} className={styles.input} id={`${idPrefix}seed-input`} placeholder="0-999" onChange={onChange} />
+          </>
+        )}
+      </div>
+      {issue && <p className="mt-2 text-sm text-rose-800">{issue}</p>}
+    </>
+  );
+}
+
+/**
+ * A helper function creating the option for one agent, disabled with the
+ * reason when the agent cannot be used.
+ * @param agent the catalog entry
+ * @param gridSize the interior board size N being played, if known
+ * @returns the option element
+ */
+function agentOption(agent: AgentInfo, gridSize?: number): JSX.Element {
+  const issue = agentIssue(agent, gridSize);
+  return (
+    <option key={agent.code} value={agent.code} disabled={issue !== undefined} title={issue}>
+      {agent.local ? agent.name : `${agent.name} Agent`}{issue ? ` (${issue})` : ""}
+    </option>
+  );
+}
@@ -0,0 +1,41 @@
+/**
+ * File: ReplayIssues.tsx
+ * Description: Lists the rule violations found in the loaded replays, with a
+ * button per violation to jump to the offending step.
+ */
+import type { JSX } from "react"
+import type { ReplayViolation } from "../replay/validate"
+
+/**
+ * This function creates the replay issue list. Nothing is rendered when every
+ * loaded replay is valid.
+ * @param grids the label and violations of each loaded grid
+ * @param onSeek called with the step to jump to
+ * @returns JSX elements for this component
+ */
+export default function ReplayIssues({ grids, onSeek }:
+    { grids: { label: string, violations: ReplayViolation[] }[], onSeek: (step: number) => void }): JSX.Element | null {
+  const flagged = grids.filter((g) => g.violations.length > 0);
+  if (flagged.length === 0) return null;
+
+  return (
+    <div role="status" aria-label="Replay issues" className="mb-2 rounded-lg border border-rose-500/40 bg-rose-100 px-4 py-2 text-sm text-rose-800 shadow-lg">
+      {flagged.map((g) => (
+        <details key={g.label}>
+          <summary className="cursor-pointer font-semibold">
+            {g.label}: {g.violations.length} replay issue{g.violations.length === 1 ? "" : "s"}, first at move {g.violations[0].step}
+          </summary>
+          <ul className="mt-1 max-h-40 overflow-y-auto">
+            {g.violations.map((v, i) => (
+              <li key={i}>
+                <button className="text-left hover:underline" onClick={() => onSeek(v.step)}>
+                  Move {v.step} ({v.rule}): {v.message}
+                </button>
+              </li>
+            ))}
+          </ul>
+        </details>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,29 @@
+/**
+ * File: SlotPicker.tsx
+ * Description: A compact "Replay in..." selector for loading a run into one of
+ * the comparison slots, or into a new one.
+ */
+import type { JSX } from "react"
+import { styles } from "../styles"
+import { MAX_SLOTS, slotLabel } from "../comparison/slots"
+
+/**
+ * This function creates the slot picker.
+ * @param slotCount the number of comparison slots
+ * @param onPick called with the slot index; `slotCount` means a new slot
+ * @returns JSX elements for this component
+ */
+export default function SlotPicker({ slotCount, onPick }: { slotCount: number, onPick: (slot: number) => void }): JSX.Element {
+  return (
+    <select
+      className={`${styles.select} py-1 text-xs text-black`}
+      value=""
+      title="Load this run into a comparison slot"
+      onChange={(e) => onPick(Number(e.target.value))}
+    >
+      <option value="" disabled>Replay in...</option>
+      {Array.from({ length: slotCount }, (_, i) => <option key={i} value={i}>{slotLabel(i)}</option>)}
+      {slotCount < MAX_SLOTS && <option value={slotCount}>New slot</option>}
+    </select>
+  );
+}
@@ -0,0 +1,119 @@
+/**
+ * File: Timeline.tsx
+ * Description: The replay scrubber. A slider bound to the current step with a
+ * lane of event markers per grid, event navigation, loop-a-range and speed.
+ */
+import type { JSX } from "react"
+import { styles } from "../styles"
+import { nextEventStep, previousEventStep, type ReplayEvent, type ReplayEventKind } from "../replay/events"
+import {
+  clampSpeed, formatSpeed, withLoopEnd, withLoopStart, MAX_SPEED, MIN_SPEED, type LoopRange
+} from "../replay/playback"
+
+const markerStyles: Record<ReplayEventKind, { glyph: string, className: string, label: string }> = {
+  fruit: { glyph: "●", className: "text-red-400", label: "Fruit eaten" },
+  death: { glyph: "✕", className: "text-rose-300 font-bold", label: "Died" },
+  win: { glyph: "★", className: "text-amber-300", label: "Won" },
+  issue: { glyph: "⚠", className: "text-rose-400", label: "Replay issue" }
+}
+
+/**
+ * This function creates the replay timeline.
+ * @param step the current step
+ * @param maxStep the last step of the longest loaded game
+ * @param lanes one row of event markers per grid
+ * @param loop the range being repeated, if any
+ * @param speed the playback speed multiplier
+ * @param onSeek called with the step to jump to
+ * @param onLoopChange called with the new loop, or null to stop looping
+ * @param onSpeedChange called with the new speed multiplier
+ * @returns JSX elements for this component
+ */
+export default function Timeline({ step, maxStep, lanes, loop, speed, onSeek, onLoopChange, onSpeedChange }:
+    { step: number,
+      maxStep: number,
+      lanes: { label: string, events: ReplayEvent[] }[],
+      loop: LoopRange | null,
+      speed: number,
+      onSeek: (step: number) => void,
+      onLoopChange: (loop: LoopRange | null) => void,
+      onSpeedChange: (speed: number) => void }): JSX.Element {
+  const disabled = maxStep <= 0;
+  const allEvents = lanes.flatMap((lane) => lane.events);
+  const previous = previousEventStep(allEvents, step);
+  const next = nextEventStep(allEvents, step);
+  // Percent offset of a step along the track; markers sit inside the slider thumb's travel
+  const offset = (s: number) => `${disabled ? 0 : (s / maxStep) * 100}%`;
+
+  return (
+    <div className="w-full text-xs text-white">
+      <div className="relative mx-2">
+        {/* Loop range highlight behind the slider */}
+        {loop && !disabled && (
+          <div className="absolute inset-y-0 rounded bg-amber-300/30"
+            style={{ left: offset(loop.start), width: `calc(${offset(loop.end)} - ${offset(loop.start)})` }} />
+        )}
+        {lanes.map((lane) => (
+          <div key={lane.label} className="relative h-4">
+            {lane.events.map((e) => (
+              // Out of the tab order; keyboard users jump between events with the buttons below
+              <button
+                key={`${e.kind}-${e.step}`}
+                tabIndex={-1}
+                className={`absolute -translate-x-1/2 leading-4 ${markerStyles[e.kind].className}`}
+                style={{ left: offset(e.step) }}
+                title={`${lane.label}: ${markerStyles[e.kind].label} at move ${e.step}`}
+                aria-label={`${lane.label}: ${markerStyles[e.kind].label} at move ${e.step}`}
+                onClick={() => onSeek(e.step)}
+              >{markerStyles[e.kind].glyph}</button>
+            ))}
+          </div>
+        ))}
+        <input
+          type="range"
+          aria-label="Replay step"
+          aria-valuetext={`Move ${Math.max(0, step)} of ${Math.max(0, maxStep)}`}
+          className="relative -mx-2 w-[calc(100%+1rem)] accent-emerald-400"
+          min={0}
+          max={Math.max(0, maxStep)}
+          value={Math.max(0, Math.min(step, maxStep))}
+          disabled={disabled}
+          onChange={(e) => onSeek(parseInt(e.target.value))}
+        />
+      </div>
+
+      <div className="mt-1 flex flex-wrap items-center justify-center gap-2">
+        <span className="w-24" aria-hidden="true">Move {Math.max(0, step)} / {Math.max(0, maxStep)}</span>
+        <button className={styles.btnSlate} disabled={previous === undefined} title="Previous event (Shift+Left)"
+          onClick={() => previous !== undefined && onSeek(previous)}>◀ Event</button>
+        <button className={styles.btnSlate} disabled={next === undefined} title="Next event (Shift+Right)"
+          onClick={() => next !== undefined && onSeek(next)}>Event ▶</button>
+        <button className={styles.btnSlate} disabled={disabled} title="Loop from the current move ([)"
+          onClick={() => onLoopChange(withLoopStart(loop, step, maxStep))}>Loop start</button>
+        <button className={styles.btnSlate} disabled={disabled || step === 0} title="Loop up to the current move (])"
+          onClick={() => onLoopChange(withLoopEnd(loop, step))}>Loop end</button>
+        {loop && (
+          <button className={styles.btnSlate} title="Stop looping (Esc)" onClick={() => onLoopChange(null)}>
+            Clear loop {loop.start}–{loop.end}
+          </button>
+        )}
+        <label className="ml-2 flex items-center gap-2" title="Playback speed (Up/Down)">
+          Speed
+          {/* Logarithmic so slow motion gets as much travel as fast forward */}
+          <input
+            type="range"
+            aria-label="Playback speed"
+            aria-valuetext={formatSpeed(speed)}
+            className="w-28 accent-emerald-400"
+            min={Math.log2(MIN_SPEED)}
+            max={Math.log2(MAX_SPEED)}
+            step={0.25}
+            value={Math.log2(speed)}
+            onChange={(e) => onSpeedChange(clampSpeed(2 ** parseFloat(e.target.value)))}
+          />
+          <span className="w-10">{formatSpeed(speed)}</span>
+        </label>
+      </div>
+    </div>
+  );
+}
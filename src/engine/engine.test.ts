@@ -0,0 +1,54 @@
+import { describe, expect, it } from "vitest"
+import { createSnakeEngine, isWallCell, moveCell, replayFruits } from "./engine"
+import { validateReplay } from "../replay/validate"
+import { diedGame, GRID_3 } from "../test/fixtures"
+
+describe("snake engine", () => {
+  it("replays a recorded game from its start and fruit", () => {
+    const engine = createSnakeEngine({ gridSize: 3, seed: 1, ...replayFruits(diedGame) });
+    (["right", "up", "left", "left", "down", "down", "up"] as const).forEach((d) => engine.step(d));
+    expect(engine.states).toEqual(diedGame);
+    expect(engine.finished).toBe(true);
+  });
+
+  it("keeps its heading when told to reverse into its neck", () => {
+    const engine = createSnakeEngine({ gridSize: 3, seed: 1, ...replayFruits(diedGame) });
+    engine.step("right"); // eats, so the neck is at 12
+    engine.step("left");
+    expect(engine.heading).toBe("right");
+    expect(isWallCell(moveCell(engine.state.snake[0], "right", 3), 3)).toBe(true); // carried on into the wall
+    expect(engine.state.snake).toEqual([13, 12]);
+    expect(engine.state.died).toBe(true);
+  });
+
+  it("is deterministic per seed and always produces valid replays", () => {
+    const play = (seed: number) => {
+      const engine = createSnakeEngine({ gridSize: 4, seed });
+      const turns = ["up", "right", "down", "left"] as const;
+      for (let i = 0; !engine.finished && i < 200; i++) engine.step(turns[(i * seed) % 4]);
+      return engine.states;
+    };
+    expect(play(7)).toEqual(play(7));
+    for (let seed = 1; seed < 20; seed++) {
+      const states = play(seed);
+      if (states[states.length - 1].died || states[states.length - 1].won) expect(validateReplay(states, 6)).toEqual([]);
+    }
+  });
+
+  it("ignores moves after the game has ended", () => {
+    const engine = createSnakeEngine({ gridSize: 3, seed: 1, start: 6 });
+    engine.step("up");
+    expect(engine.state.died).toBe(true);
+    engine.step("down");
+    expect(engine.states).toHaveLength(2);
+  });
+});
+
+describe("board geometry", () => {
+  it("knows the walls of the walled layout", () => {
+    expect(isWallCell(0, 3)).toBe(true);
+    expect(isWallCell(12, 3)).toBe(false);
+    expect(isWallCell(19, 3)).toBe(true);
+    expect(moveCell(12, "down", GRID_3 - 2)).toBe(17);
+  });
+});
@@ -0,0 +1,136 @@
+/**
+ * File: engine.ts
+ * Description: A local snake engine producing the same `GameState` stream as
+ * the backend, on the wall-bordered layout the grid renders. Fruit comes from
+ * the same seeded PRNG as the mock backend, or from the fruit sequence of a
+ * recorded run so a game can be replayed against identical fruit.
+ */
+import type { GameState } from "../types"
+import { fruitRandom } from "../utils/random"
+
+export type Direction = "up" | "down" | "left" | "right"
+
+export type EngineOptions = {
+  /** The interior board size N (without walls) */
+  gridSize: number,
+  seed: number,
+  /** Starting cell of the snake, walled index; drawn from the seed if omitted */
+  start?: number,
+  /** Fruit cells to use in order before falling back to the seed, walled indices */
+  fruits?: number[]
+}
+
+export type SnakeEngine = {
+  /** Every state so far, starting with the initial board */
+  readonly states: GameState[],
+  /** The latest state */
+  readonly state: GameState,
+  /** True once the game is won or lost */
+  readonly finished: boolean,
+  /** The direction of the last move, or null before the first one */
+  readonly heading: Direction | null,
+  /**
+   * Moves the snake one cell. Turning back into the neck keeps the current heading.
+   * @returns the new state; after the game has finished, the final state
+   */
+  step(direction: Direction): GameState
+}
+
+/**
+ * The walled index one cell away in a direction.
+ * @param cell a walled index
+ * @param direction the direction to move in
+ * @param gridSize the interior board size N (without walls)
+ * @returns the neighbouring walled index
+ */
+export function moveCell(cell: number, direction: Direction, gridSize: number): number {
+  const width = gridSize + 2;
+  const deltas: Record<Direction, number> = { up: -width, down: width, left: -1, right: 1 };
+  return cell + deltas[direction];
+}
+
+/**
+ * Whether a walled index is part of the border.
+ * @param cell a walled index
+ * @param gridSize the interior board size N (without walls)
+ * @returns true for wall cells
+ */
+export function isWallCell(cell: number, gridSize: number): boolean {
+  const width = gridSize + 2;
+  const row = Math.floor(cell / width);
+  const col = cell % width;
+  return row === 0 || row === width - 1 || col === 0 || col === width - 1;
+}
+
+/**
+ * Reads the starting cell and the fruit sequence of a recorded run, so a new
+ * game can be played against the same fruit.
+ * @param states every state of the recorded game
+ * @returns options for createSnakeEngine
+ */
+export function replayFruits(states: GameState[]): Pick<EngineOptions, "start" | "fruits"> {
+  const fruits: number[] = [];
+  states.forEach((s) => {
+    if (s.fruit >= 0 && fruits[fruits.length - 1] !== s.fruit) fruits.push(s.fruit);
+  });
+  return { start: states[0]?.snake[0], fruits };
+}
+
+/**
+ * Starts a new game.
+ * @param options the board size, seed and optional recorded fruit
+ * @returns the engine, holding the initial board
+ */
+export function createSnakeEngine(options: EngineOptions): SnakeEngine {
+  const { gridSize } = options;
+  const width = gridSize + 2;
+  const rng = fruitRandom(gridSize, options.seed);
+  const interior: number[] = [];
+  for (let r = 1; r <= gridSize; r++) {
+    for (let c = 1; c <= gridSize; c++) interior.push(r * width + c);
+  }
+  const recorded = [...(options.fruits ?? [])];
+
+  // Recorded fruit first, as long as it lands on a free cell; then the seed
+  const spawnFruit = (snake: number[]) => {
+    const next = recorded.shift();
+    if (next !== undefined && !snake.includes(next) && !isWallCell(next, gridSize)) return next;
+    recorded.length = 0;
+    const free = interior.filter((i) => !snake.includes(i));
+    return free.length === 0 ? -1 : free[Math.floor(rng() * free.length)];
+  };
+
+  const start = options.start !== undefined && interior.includes(options.start)
+    ? options.start
+    : interior[Math.floor(rng() * interior.length)];
+  const states: GameState[] = [{ snake: [start], fruit: spawnFruit([start]), won: false, died: false }];
+  let heading: Direction | null = null;
+
+  const engine: SnakeEngine = {
+    states,
+    get state() { return states[states.length - 1]; },
+    get finished() { return engine.state.won || engine.state.died; },
+    get heading() { return heading; },
+    step(direction) {
+      const { snake, fruit } = engine.state;
+      if (engine.finished) return engine.state;
+
+      let next = moveCell(snake[0], direction, gridSize);
+      if (snake.length > 1 && next === snake[1] && heading) next = moveCell(snake[0], heading, gridSize);
+      else heading = direction;
+
+      const ate = next === fruit;
+      const body = ate ? snake : snake.slice(0, -1); // the tail moves out of the way unless the snake grows
+      if (isWallCell(next, gridSize) || body.includes(next)) {
+        states.push({ snake, fruit, won: false, died: true });
+        return engine.state;
+      }
+
+      const grown = [next, ...body];
+      const won = grown.length === interior.length;
+      states.push({ snake: grown, fruit: ate ? (won ? -1 : spawnFruit(grown)) : fruit, won, died: false });
+      return engine.state;
+    }
+  };
+  return engine;
+}
@@ -0,0 +1,106 @@
+import { describe, expect, it } from "vitest"
+import { createGifEncoder } from "./gif"
+
+type DecodedFrame = { delayCs: number, pixels: number[] }
+
+// A minimal GIF decoder, enough to read back what the encoder writes
+function decodeGif(bytes: Uint8Array): { width: number, height: number, frames: DecodedFrame[] } {
+  const width = bytes[6] | (bytes[7] << 8);
+  const height = bytes[8] | (bytes[9] << 8);
+  const frames: DecodedFrame[] = [];
+  let p = 13;
+  let delayCs = 0;
+  while (bytes[p] !== 0x3b) {
+    if (bytes[p] === 0x21) { // extension
+      if (bytes[p + 1] === 0xf9) delayCs = bytes[p + 4] | (bytes[p + 5] << 8);
+      p += 2;
+      while (bytes[p] !== 0) p += bytes[p] + 1;
+      p++;
+      continue;
+    }
+    const tableSize = 1 << ((bytes[p + 9] & 7) + 1);
+    p += 10;
+    const palette = Array.from({ length: tableSize }, (_, i) =>
+      (bytes[p + i * 3] << 16) | (bytes[p + i * 3 + 1] << 8) | bytes[p + i * 3 + 2]);
+    p += tableSize * 3;
+    const minCodeSize = bytes[p++];
+    const data: number[] = [];
+    while (bytes[p] !== 0) {
+      data.push(...bytes.slice(p + 1, p + 1 + bytes[p]));
+      p += bytes[p] + 1;
+    }
+    p++;
+
+    const clear = 1 << minCodeSize;
+    let codeSize = minCodeSize + 1;
+    let table: number[][] = [];
+    const reset = () => {
+      table = Array.from({ length: clear + 2 }, (_, i) => [i]);
+      codeSize = minCodeSize + 1;
+    };
+    reset();
+    const out: number[] = [];
+    let bit = 0;
+    let previous: number[] | null = null;
+    for (;;) {
+      let code = 0;
+      for (let i = 0; i < codeSize; i++, bit++) code |= ((data[bit >> 3] >> (bit & 7)) & 1) << i;
+      if (code === clear) { reset(); previous = null; continue; }
+      if (code === clear + 1) break;
+      const entry: number[] = code < table.length ? table[code] : [...previous!, previous![0]];
+      out.push(...entry);
+      if (previous) table.push([...previous, entry[0]]);
+      if (table.length === 1 << codeSize && codeSize < 12) codeSize++;
+      previous = entry;
+    }
+    frames.push({ delayCs, pixels: out.map((i) => palette[i]) });
+  }
+  return { width, height, frames };
+}
+
+// RGBA pixels from a color per pixel
+function rgba(colors: number[]): Uint8ClampedArray {
+  return Uint8ClampedArray.from(colors.flatMap((c) => [(c >> 16) & 255, (c >> 8) & 255, c & 255, 255]));
+}
+
+async function encode(width: number, height: number, frames: { colors: number[], delayMs: number }[]) {
+  const gif = createGifEncoder(width, height);
+  frames.forEach((f) => gif.addFrame(rgba(f.colors), f.delayMs));
+  const blob = gif.finish();
+  expect(blob.type).toBe("image/gif");
+  return decodeGif(new Uint8Array(await blob.arrayBuffer()));
+}
+
+describe("createGifEncoder", () => {
+  it("round-trips frames and their delays", async () => {
+    const board = Array.from({ length: 40 * 30 }, (_, i) => [0x000000, 0x86efac, 0x22c55e, 0xef4444][(i >> 3) % 4]);
+    const shifted = board.map((_, i) => board[(i + 5) % board.length]);
+    const gif = await encode(40, 30, [{ colors: board, delayMs: 500 }, { colors: shifted, delayMs: 31 }]);
+    expect(gif).toMatchObject({ width: 40, height: 30 });
+    expect(gif.frames.map((f) => f.delayCs)).toEqual([50, 3]);
+    expect(gif.frames[0].pixels).toEqual(board);
+    expect(gif.frames[1].pixels).toEqual(shifted);
+  });
+
+  it("restarts the code table on busy images", async () => {
+    let seed = 1;
+    const noise = Array.from({ length: 64 * 64 }, () => {
+      seed = (seed * 1103515245 + 12345) >>> 0;
+      return (seed >>> 24) * 0x010101; // 256 grays
+    });
+    const gif = await encode(64, 64, [{ colors: noise, delayMs: 100 }]);
+    expect(gif.frames[0].pixels).toEqual(noise);
+  });
+
+  it("maps colors beyond 256 to the nearest one", async () => {
+    const grays = Array.from({ length: 256 }, (_, i) => i * 0x010101);
+    const tinted = grays.slice(0, 44).map((c) => c + 1); // a touch more blue than a gray
+    const gif = await encode(300, 1, [{ colors: [...grays, ...tinted], delayMs: 100 }]);
+    expect(gif.frames[0].pixels).toEqual([...grays, ...grays.slice(0, 44)]);
+  });
+
+  it("never writes a delay shorter than browsers play", async () => {
+    const gif = await encode(2, 2, [{ colors: [0, 0, 0, 0], delayMs: 1 }]);
+    expect(gif.frames[0].delayCs).toBe(2);
+  });
+});
@@ -0,0 +1,144 @@
+/**
+ * File: gif.ts
+ * Description: A small animated GIF encoder. Frames are added one at a time as
+ * RGBA pixels; each gets its own color table, which suits the flat colors of
+ * the board, so no quantizer is needed.
+ */
+
+export type GifEncoder = {
+  /**
+   * Appends a frame.
+   * @param pixels RGBA pixels of the full image, e.g. from getImageData; alpha is ignored
+   * @param delayMs how long the frame is shown
+   */
+  addFrame: (pixels: Uint8ClampedArray, delayMs: number) => void,
+  /** Ends the file; the encoder cannot be used afterwards */
+  finish: () => Blob
+}
+
+const MAX_COLORS = 256
+
+// Maps every pixel to a color table index. The first 256 distinct colors get
+// their own entry; any further color (e.g. anti-aliased text) uses the nearest one.
+function indexPixels(pixels: Uint8ClampedArray): { palette: number[], indices: Uint8Array } {
+  const palette: number[] = [];
+  const lookup = new Map<number, number>();
+  const indices = new Uint8Array(pixels.length / 4);
+  for (let p = 0; p < indices.length; p++) {
+    const rgb = (pixels[p * 4] << 16) | (pixels[p * 4 + 1] << 8) | pixels[p * 4 + 2];
+    let index = lookup.get(rgb);
+    if (index === undefined) {
+      if (palette.length < MAX_COLORS) {
+        index = palette.push(rgb) - 1;
+      } else {
+        let best = Infinity;
+        palette.forEach((c, i) => {
+          const dr = ((c >> 16) & 255) - (rgb >> 16);
+          const dg = ((c >> 8) & 255) - ((rgb >> 8) & 255);
+          const db = (c & 255) - (rgb & 255);
+          const distance = dr * dr + dg * dg + db * db;
+          if (distance < best) { best = distance; index = i; }
+        });
+      }
+      lookup.set(rgb, index!);
+    }
+    indices[p] = index!;
+  }
+  return { palette, indices };
+}
+
+// Variable-length LZW as the GIF format uses it, with 12-bit codes at most
+function lzwEncode(indices: Uint8Array, minCodeSize: number): number[] {
+  const clearCode = 1 << minCodeSize;
+  const endCode = clearCode + 1;
+  const out: number[] = [];
+  let codeSize = minCodeSize + 1;
+  let nextCode = endCode + 1;
+  let table = new Map<number, number>();
+  let buffer = 0;
+  let bits = 0;
+
+  const emit = (code: number) => {
+    buffer |= code << bits;
+    bits += codeSize;
+    while (bits >= 8) {
+      out.push(buffer & 255);
+      buffer >>>= 8;
+      bits -= 8;
+    }
+  };
+
+  emit(clearCode);
+  let prefix = indices[0];
+  for (let i = 1; i < indices.length; i++) {
+    const key = (prefix << 8) | indices[i];
+    const code = table.get(key);
+    if (code !== undefined) {
+      prefix = code;
+      continue;
+    }
+    emit(prefix);
+    if (nextCode === 4096) { // the table is full, so start over
+      emit(clearCode);
+      table = new Map();
+      codeSize = minCodeSize + 1;
+      nextCode = endCode + 1;
+    } else {
+      if (nextCode >= 1 << codeSize) codeSize++;
+      table.set(key, nextCode++);
+    }
+    prefix = indices[i];
+  }
+  emit(prefix);
+  emit(endCode);
+  if (bits > 0) out.push(buffer & 255);
+  return out;
+}
+
+const word = (n: number) => [n & 255, (n >> 8) & 255];
+
+/**
+ * Starts a GIF that loops forever.
+ * @param width the image width in pixels
+ * @param height the image height in pixels
+ * @returns the encoder
+ */
+export function createGifEncoder(width: number, height: number): GifEncoder {
+  const chunks: Uint8Array<ArrayBuffer>[] = [];
+  const header = [
+    ...Array.from("GIF89a", (c) => c.charCodeAt(0)),
+    ...word(width), ...word(height), 0, 0, 0, // no global color table
+    // NETSCAPE2.0 application extension: repeat forever
+    0x21, 0xff, 0x0b, ...Array.from("NETSCAPE2.0", (c) => c.charCodeAt(0)), 0x03, 0x01, 0, 0, 0
+  ];
+  chunks.push(Uint8Array.from(header));
+
+  return {
+    addFrame(pixels, delayMs) {
+      const { palette, indices } = indexPixels(pixels);
+      const tableBits = Math.max(1, Math.ceil(Math.log2(palette.length)));
+      const colorTable = Array.from({ length: 1 << tableBits }, (_, i) => palette[i] ?? 0)
+        .flatMap((c) => [(c >> 16) & 255, (c >> 8) & 255, c & 255]);
+      const minCodeSize = Math.max(2, tableBits);
+      const data = lzwEncode(indices, minCodeSize);
+
+      const delay = Math.max(2, Math.round(delayMs / 10)); // in 1/100 s; browsers slow down anything shorter
+      const frame = [
+        0x21, 0xf9, 0x04, 0, ...word(delay), 0, 0,                       // graphic control extension
+        0x2c, 0, 0, 0, 0, ...word(width), ...word(height), 0x80 | (tableBits - 1), // image descriptor
+        ...colorTable,
+        minCodeSize
+      ];
+      for (let i = 0; i < data.length; i += 255) {
+        const block = data.slice(i, i + 255);
+        frame.push(block.length, ...block);
+      }
+      frame.push(0);
+      chunks.push(Uint8Array.from(frame));
+    },
+    finish() {
+      chunks.push(Uint8Array.of(0x3b));
+      return new Blob(chunks, { type: "image/gif" });
+    }
+  };
+}
@@ -0,0 +1,37 @@
+import { describe, expect, it } from "vitest"
+import { exportFileName, frameSteps, lastStep } from "./replayExport"
+import { diedGame, GRID_3, wonGame } from "../test/fixtures"
+
+describe("frameSteps", () => {
+  it("renders every step of short replays", () => {
+    expect(frameSteps(4)).toEqual([0, 1, 2, 3, 4]);
+    expect(frameSteps(0)).toEqual([0]);
+    expect(frameSteps(-1)).toEqual([]);
+  });
+
+  it("spreads a capped number of frames over long replays", () => {
+    const steps = frameSteps(9999, 100);
+    expect(steps).toHaveLength(100);
+    expect(steps[0]).toBe(0);
+    expect(steps[99]).toBe(9999);
+    expect(steps.every((s, i) => i === 0 || s > steps[i - 1])).toBe(true);
+  });
+});
+
+describe("export sources", () => {
+  const source = {
+    title: "Slots 1, 2",
+    gridSize: GRID_3,
+    boards: [{ label: "A", color: "#fff", states: diedGame }, { label: "B", color: "#000", states: wonGame }],
+    step: 2
+  };
+
+  it("last until the longest board ends", () => {
+    expect(lastStep(source)).toBe(diedGame.length - 1);
+  });
+
+  it("name files after their title", () => {
+    expect(exportFileName(source, "gif")).toMatch(/^snake-slots-1-2-\d{4}-\d{2}-\d{2}\.gif$/);
+    expect(exportFileName({ ...source, title: "!!" }, "png")).toMatch(/^snake-replay-/);
+  });
+});
@@ -0,0 +1,274 @@
+/**
+ * File: replayExport.ts
+ * Description: Renders replays into shareable files entirely in the browser: a
+ * PNG of one step, or the whole replay as an animated GIF or WebM video. Several
+ * boards are laid out side by side, each captioned with its label and the
+ * "Moves/Fruits" stats, using the same drawing code as the on-screen grid.
+ */
+import type { GameState } from "../types"
+import { boardColors, drawBackground, drawPieces, snakePalette, type BoardTheme } from "../render/board"
+import {
+  drawFruitMarkers, drawHeatmap, drawTrail, fruitMarkers, headTrail, visitCounts, type BoardOverlays
+} from "../render/overlays"
+import { createGifEncoder } from "./gif"
+
+export type ExportFormat = "png" | "gif" | "webm"
+
+export type ExportBoard = {
+  label: string,
+  /** Color of the caption's marker */
+  color: string,
+  states: GameState[],
+  /** Colors of this board, e.g. its slot's snake color; the source's theme if omitted */
+  theme?: BoardTheme,
+  /** Replay overlays drawn over this board */
+  overlays?: BoardOverlays
+}
+
+/** What to export: one or more boards of the same size */
+export type ExportSource = {
+  /** Used in the dialog title and the file name, e.g. "Slots 1-2" */
+  title: string,
+  /** A number N representing the size of an NxN grid, walls included */
+  gridSize: number,
+  boards: ExportBoard[],
+  /** The step a PNG shows */
+  step: number,
+  /** Board colors; the default theme if omitted */
+  theme?: BoardTheme,
+  /** How many of the latest moves a trail overlay follows */
+  trailLength?: number
+}
+
+export type ExportOptions = {
+  /** Playback speed multiplier of one move every 500 ms, as in the player */
+  speed: number,
+  signal?: AbortSignal,
+  /** Called with the share of frames rendered so far, from 0 to 1 */
+  onProgress?: (done: number) => void
+}
+
+// Longer replays skip moves evenly so files stay a reasonable size
+export const MAX_EXPORT_FRAMES = 1500
+
+const BOARD_PX = 320      // target board width; cells stay within the bounds below
+const MIN_CELL_PX = 6
+const MAX_CELL_PX = 32
+const MIN_COLUMN_PX = 200 // room for the caption under small boards
+const PADDING_PX = 16
+const CAPTION_PX = 44
+const HOLD_LAST_MS = 1500 // keep the final board on screen before a GIF loops or a video ends
+
+const exportColors = {
+  background: "#9ca3af", // gray-400
+  text: "#0f172a"        // slate-900
+} as const
+
+type Layout = { width: number, height: number, cell: number, column: number }
+
+function layoutFor(source: ExportSource): Layout {
+  const cell = Math.max(MIN_CELL_PX, Math.min(MAX_CELL_PX, Math.floor(BOARD_PX / source.gridSize)));
+  const column = Math.max(cell * source.gridSize, MIN_COLUMN_PX);
+  return {
+    width: source.boards.length * (column + PADDING_PX) + PADDING_PX,
+    height: cell * source.gridSize + CAPTION_PX + PADDING_PX * 2,
+    cell,
+    column
+  };
+}
+
+// Shortens text with an ellipsis until it fits
+function fitText(ctx: CanvasRenderingContext2D, text: string, maxWidth: number): string {
+  if (ctx.measureText(text).width <= maxWidth) return text;
+  let cut = text;
+  while (cut.length > 1 && ctx.measureText(`${cut}…`).width > maxWidth) cut = cut.slice(0, -1);
+  return `${cut}…`;
+}
+
+/**
+ * The last step of the longest board.
+ * @param source what to export
+ * @returns the step index, or -1 when no board has a game
+ */
+export function lastStep(source: ExportSource): number {
+  return Math.max(...source.boards.map((b) => b.states.length)) - 1;
+}
+
+/**
+ * The steps to render as frames: every step, or evenly spaced ones for long replays.
+ * The first and last step are always included.
+ * @param maxStep the last step
+ * @param maxFrames the most frames to render
+ * @returns ascending step indices
+ */
+export function frameSteps(maxStep: number, maxFrames: number = MAX_EXPORT_FRAMES): number[] {
+  if (maxStep < 0) return [];
+  const count = Math.min(maxStep + 1, maxFrames);
+  if (count === 1) return [0];
+  return Array.from({ length: count }, (_, i) => Math.round((i * maxStep) / (count - 1)));
+}
+
+/**
+ * Draws one frame: every board at a step, with its caption. Boards whose game
+ * ended earlier stay on their last move, as in the player.
+ * @param ctx the context to draw into, sized by createExportCanvas
+ * @param source what to export
+ * @param step the step to show
+ */
+export function drawExportFrame(ctx: CanvasRenderingContext2D, source: ExportSource, step: number): void {
+  const { cell, column } = layoutFor(source);
+  const boardPx = cell * source.gridSize;
+  // Heatmaps share one scale so boards can be compared, as on screen
+  const visits = source.boards.map((b) => (b.overlays?.heatmap ? visitCounts(b.states, step, source.gridSize) : null));
+  const heatmapScale = Math.max(0, ...visits.map((v) => (v ? Math.max(...v) : 0)));
+
+  ctx.setTransform(1, 0, 0, 1, 0, 0);
+  ctx.fillStyle = exportColors.background;
+  ctx.fillRect(0, 0, ctx.canvas.width, ctx.canvas.height);
+
+  source.boards.forEach((board, i) => {
+    const left = PADDING_PX + i * (column + PADDING_PX);
+    const state = board.states[Math.min(step, board.states.length - 1)];
+    const moves = Math.max(0, Math.min(step, board.states.length - 1));
+    const fruits = state ? state.snake.length - 1 : 0;
+    let status = "";
+    if (state?.won) status = " · Won";
+    else if (state?.died) status = " · Died";
+
+    ctx.setTransform(1, 0, 0, 1, 0, 0);
+    ctx.fillStyle = board.color;
+    ctx.beginPath();
+    ctx.arc(left + 4, PADDING_PX + 8, 4, 0, Math.PI * 2);
+    ctx.fill();
+    ctx.fillStyle = exportColors.text;
+    ctx.textBaseline = "middle";
+    ctx.font = "600 14px sans-serif";
+    ctx.fillText(fitText(ctx, board.label, column - 14), left + 14, PADDING_PX + 8);
+    ctx.font = "13px sans-serif";
+    ctx.fillText(`Moves: ${moves}   Fruits: ${fruits}${status}`, left, PADDING_PX + 28);
+
+    const theme = board.theme ?? source.theme ?? boardColors;
+    const boardLeft = left + Math.floor((column - boardPx) / 2);
+    ctx.setTransform(1, 0, 0, 1, boardLeft, PADDING_PX + CAPTION_PX);
+    drawBackground(ctx, source.gridSize, cell, theme);
+    const heatmap = visits[i];
+    if (heatmap) drawHeatmap(ctx, source.gridSize, cell, heatmap, theme.heatmap, heatmapScale);
+    if (board.overlays?.fruit) drawFruitMarkers(ctx, source.gridSize, cell, fruitMarkers(board.states, step), theme.fruit);
+    if (state) drawPieces(ctx, { gridSize: source.gridSize, cell, state, palette: snakePalette(source.gridSize, theme), theme });
+    if (board.overlays?.trail) drawTrail(ctx, source.gridSize, cell, headTrail(board.states, step, source.trailLength), theme.trail);
+  });
+  ctx.setTransform(1, 0, 0, 1, 0, 0);
+}
+
+/**
+ * Creates an offscreen canvas sized for an export.
+ * @param source what to export
+ * @returns the canvas and its 2D context
+ */
+export function createExportCanvas(source: ExportSource): { canvas: HTMLCanvasElement, ctx: CanvasRenderingContext2D } {
+  const { width, height } = layoutFor(source);
+  const canvas = document.createElement("canvas");
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext("2d", { willReadFrequently: true });
+  if (!ctx) throw new Error("This browser cannot draw to a canvas");
+  return { canvas, ctx };
+}
+
+// Lets the page repaint between batches of frames
+const yieldToBrowser = () => new Promise<void>((resolve) => setTimeout(resolve, 0));
+
+/**
+ * Renders the source at its step as a PNG.
+ * @param source what to export
+ * @returns the image
+ */
+export function exportPng(source: ExportSource): Promise<Blob> {
+  const { canvas, ctx } = createExportCanvas(source);
+  drawExportFrame(ctx, source, source.step);
+  return new Promise((resolve, reject) => canvas.toBlob((blob) =>
+    (blob ? resolve(blob) : reject(new Error("Could not encode the PNG"))), "image/png"));
+}
+
+/**
+ * Renders the full replay as a looping animated GIF.
+ * @param source what to export
+ * @param options playback speed, cancellation and progress
+ * @returns the GIF
+ */
+export async function exportGif(source: ExportSource, options: ExportOptions): Promise<Blob> {
+  const { canvas, ctx } = createExportCanvas(source);
+  const gif = createGifEncoder(canvas.width, canvas.height);
+  const steps = frameSteps(lastStep(source));
+  const stepMs = 500 / options.speed;
+
+  for (let i = 0; i < steps.length; i++) {
+    options.signal?.throwIfAborted();
+    drawExportFrame(ctx, source, steps[i]);
+    const delay = i === steps.length - 1 ? stepMs + HOLD_LAST_MS : stepMs;
+    gif.addFrame(ctx.getImageData(0, 0, canvas.width, canvas.height).data, delay);
+    options.onProgress?.((i + 1) / steps.length);
+    if (i % 10 === 9) await yieldToBrowser();
+  }
+  return gif.finish();
+}
+
+/**
+ * Whether the browser can record a WebM video of a canvas.
+ * @returns true when MediaRecorder supports WebM
+ */
+export function canRecordWebm(): boolean {
+  return typeof MediaRecorder !== "undefined" && MediaRecorder.isTypeSupported("video/webm");
+}
+
+/**
+ * Records the full replay as a WebM video. The browser records in real time,
+ * so this takes as long as the replay plays at the chosen speed.
+ * @param source what to export
+ * @param options playback speed, cancellation and progress
+ * @returns the video
+ */
+export async function exportWebm(source: ExportSource, options: ExportOptions): Promise<Blob> {
+  if (!canRecordWebm()) throw new Error("This browser cannot record WebM video");
+  const { canvas, ctx } = createExportCanvas(source);
+  const steps = frameSteps(lastStep(source));
+  const stepMs = 500 / options.speed;
+
+  const stream = canvas.captureStream(0); // frames are pushed with requestFrame
+  const track = stream.getVideoTracks()[0] as CanvasCaptureMediaStreamTrack;
+  const type = MediaRecorder.isTypeSupported("video/webm;codecs=vp9") ? "video/webm;codecs=vp9" : "video/webm";
+  const recorder = new MediaRecorder(stream, { mimeType: type });
+  const chunks: Blob[] = [];
+  recorder.ondataavailable = (e) => chunks.push(e.data);
+  const stopped = new Promise<void>((resolve) => { recorder.onstop = () => resolve(); });
+  const wait = (ms: number) => new Promise<void>((resolve) => setTimeout(resolve, ms));
+
+  drawExportFrame(ctx, source, steps[0] ?? 0);
+  recorder.start();
+  try {
+    for (let i = 0; i < steps.length; i++) {
+      options.signal?.throwIfAborted();
+      drawExportFrame(ctx, source, steps[i]);
+      track.requestFrame();
+      options.onProgress?.((i + 1) / steps.length);
+      await wait(i === steps.length - 1 ? stepMs + HOLD_LAST_MS : stepMs);
+    }
+  } finally {
+    recorder.stop();
+    await stopped;
+    track.stop();
+  }
+  return new Blob(chunks, { type: "video/webm" });
+}
+
+/**
+ * A file name for an export.
+ * @param source what was exported
+ * @param format the file format
+ * @returns e.g. "snake-slots-1-2-2025-01-31.gif"
+ */
+export function exportFileName(source: ExportSource, format: ExportFormat): string {
+  const slug = source.title.toLowerCase().replace(/[^a-z0-9]+/g, "-").replace(/^-|-$/g, "");
+  const date = new Date().toISOString().slice(0, 10);
+  return `snake-${slug || "replay"}-${date}.${format}`;
+}
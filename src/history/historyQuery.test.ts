@@ -0,0 +1,55 @@
+import { describe, expect, it } from "vitest"
+import { distinctValues, emptyFilters, filterHistory, paginateHistory, sortHistory } from "./historyQuery"
+import { createTableResult } from "../results"
+import { diedGame, GRID_2, GRID_3, wonGame } from "../test/fixtures"
+
+const rows = [
+  { ...createTableResult("a*", "N/A", GRID_3, diedGame, "42"), id: "r1" },
+  { ...createTableResult("deep-ql", "5k", GRID_2, wonGame, "4"), id: "r2" },
+  { ...createTableResult("deep-ql", "500", GRID_3, diedGame, "7"), id: "r3" },
+  { ...createTableResult("a*", "N/A", GRID_2, wonGame, ""), id: "r4" }
+];
+const ids = (results: { id: string }[]) => results.map((r) => r.id);
+
+describe("filterHistory", () => {
+  it("keeps rows matching every filter", () => {
+    expect(ids(filterHistory(rows, { ...emptyFilters, agent: "Deep QL" }))).toEqual(["r2", "r3"]);
+    expect(ids(filterHistory(rows, { ...emptyFilters, agent: "Deep QL", outcome: "Won" }))).toEqual(["r2"]);
+    expect(ids(filterHistory(rows, { ...emptyFilters, gridSize: "2x2" }))).toEqual(["r2", "r4"]);
+    expect(filterHistory(rows, emptyFilters)).toEqual(rows);
+  });
+
+  it("matches numeric search terms to the seed exactly and others to any text column", () => {
+    expect(ids(filterHistory(rows, { ...emptyFilters, search: "4" }))).toEqual(["r2"]);
+    expect(ids(filterHistory(rows, { ...emptyFilters, search: "deep LOST" }))).toEqual(["r3"]);
+    expect(ids(filterHistory(rows, { ...emptyFilters, search: "  r4 " }))).toEqual(["r4"]);
+  });
+});
+
+describe("sortHistory", () => {
+  it("sorts numbers numerically, training by episodes, and keeps ties in order", () => {
+    expect(ids(sortHistory(rows, "seed", "asc"))).toEqual(["r4", "r2", "r3", "r1"]);
+    expect(ids(sortHistory(rows, "train", "desc"))).toEqual(["r2", "r3", "r1", "r4"]);
+    expect(ids(sortHistory(rows, "outcome", "asc"))).toEqual(["r1", "r3", "r2", "r4"]);
+  });
+
+  it("puts runs without fruit last by moves per fruit, and leaves the order alone without a key", () => {
+    const hungry = { ...rows[0], id: "r5", fruitCount: 0, avgMove: "0.000" };
+    expect(ids(sortHistory([hungry, ...rows], "avgMove", "asc")).pop()).toBe("r5");
+    expect(sortHistory(rows, null, "asc")).toBe(rows);
+  });
+});
+
+describe("paginateHistory", () => {
+  it("cuts the rows into pages and clamps the page", () => {
+    expect(paginateHistory(rows, 1, 3)).toEqual({ rows: [rows[3]], page: 1, pageCount: 2 });
+    expect(paginateHistory(rows, 9, 3).page).toBe(1);
+    expect(paginateHistory([], 0, 25)).toEqual({ rows: [], page: 0, pageCount: 1 });
+  });
+});
+
+describe("distinctValues", () => {
+  it("lists each value once in natural order", () => {
+    expect(distinctValues(rows, (r) => r.train)).toEqual(["5k", "500", "N/A"]);
+  });
+});
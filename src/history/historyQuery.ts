@@ -0,0 +1,116 @@
+/**
+ * File: historyQuery.ts
+ * Description: Sorting, filtering and pagination for the simulation history table.
+ */
+import type { TableResult } from "../types"
+import { trainingEpisodes } from "../analytics/analytics"
+
+export type SortKey = "timestamp" | "agent" | "gridSize" | "train" | "seed" | "moveCount" | "fruitCount" | "finalLength" | "avgMove" | "outcome"
+export type SortDirection = "asc" | "desc"
+
+/** Empty strings mean "any" */
+export type HistoryFilters = {
+  agent: string,
+  gridSize: string,
+  train: string,
+  outcome: string,
+  search: string
+}
+
+export const emptyFilters: HistoryFilters = { agent: "", gridSize: "", train: "", outcome: "", search: "" }
+
+// Value each column sorts by; numbers sort numerically, everything else as text
+const sortValue: Record<SortKey, (r: TableResult) => number | string> = {
+  timestamp: (r) => r.timestamp,
+  agent: (r) => r.agent,
+  gridSize: (r) => r.replaySize,
+  train: (r) => trainingEpisodes(r.train),
+  seed: (r) => (r.seed === "" ? -1 : Number(r.seed)),
+  moveCount: (r) => r.moveCount,
+  fruitCount: (r) => r.fruitCount,
+  finalLength: (r) => r.finalLength,
+  avgMove: (r) => (r.fruitCount > 0 ? Number(r.avgMove) : Infinity),
+  outcome: (r) => r.outcome
+}
+
+/**
+ * Whether a row matches one search term. Numeric terms match the seed exactly
+ * (so "4" does not match seed 42); other terms match any text column.
+ * @param r a history row
+ * @param term a lower-cased search term
+ * @returns true if the row matches
+ */
+function matchesTerm(r: TableResult, term: string): boolean {
+  if (/^\d+$/.test(term)) return r.seed === term;
+  return [r.agent, r.gridSize, r.train, r.outcome, r.id].join(" ").toLowerCase().includes(term);
+}
+
+/**
+ * Keeps the rows matching every active filter.
+ * @param results the history
+ * @param filters the filter values
+ * @returns the matching rows, in their original order
+ */
+export function filterHistory(results: TableResult[], filters: HistoryFilters): TableResult[] {
+  const terms = filters.search.toLowerCase().split(/\s+/).filter(Boolean);
+  return results.filter((r) =>
+    (!filters.agent || r.agent === filters.agent)
+    && (!filters.gridSize || r.gridSize === filters.gridSize)
+    && (!filters.train || r.train === filters.train)
+    && (!filters.outcome || r.outcome === filters.outcome)
+    && terms.every((t) => matchesTerm(r, t)));
+}
+
+/**
+ * Sorts rows by a column. Ties keep their original (newest first) order.
+ * @param results the rows to sort
+ * @param key the column, or null for the original order
+ * @param direction ascending or descending
+ * @returns a new sorted array
+ */
+export function sortHistory(results: TableResult[], key: SortKey | null, direction: SortDirection): TableResult[] {
+  if (!key) return results;
+  const sign = direction === "asc" ? 1 : -1;
+  const get = sortValue[key];
+  return results
+    .map((r, i) => ({ r, i, v: get(r) }))
+    .sort((a, b) => {
+      const cmp = typeof a.v === "number" && typeof b.v === "number"
+        ? (a.v === b.v ? 0 : a.v < b.v ? -1 : 1)
+        : String(a.v).localeCompare(String(b.v));
+      return cmp * sign || a.i - b.i;
+    })
+    .map(({ r }) => r);
+}
+
+/**
+ * Distinct values of a column, for filter dropdowns.
+ * @param results the history
+ * @param pick which value to collect
+ * @returns the distinct values, sorted
+ */
+export function distinctValues(results: TableResult[], pick: (r: TableResult) => string): string[] {
+  return [...new Set(results.map(pick))].sort((a, b) => a.localeCompare(b, undefined, { numeric: true }));
+}
+
+/** One page of the history table */
+export type HistoryPage = {
+  rows: TableResult[],
+  /** The page shown, clamped to the pages there are */
+  page: number,
+  /** At least 1, even with no rows */
+  pageCount: number
+}
+
+/**
+ * Cuts the rows into pages.
+ * @param results the sorted, filtered rows
+ * @param page the requested page, from 0; past the end shows the last page
+ * @param pageSize rows per page
+ * @returns the rows of the page and where it is
+ */
+export function paginateHistory(results: TableResult[], page: number, pageSize: number): HistoryPage {
+  const pageCount = Math.max(1, Math.ceil(results.length / pageSize));
+  const current = Math.min(page, pageCount - 1);
+  return { rows: results.slice(current * pageSize, (current + 1) * pageSize), page: current, pageCount };
+}
@@ -0,0 +1,76 @@
+import { describe, expect, it } from "vitest"
+import { HISTORY_STORAGE_KEY, isTableResult, loadHistory, MAX_HISTORY_BYTES, MAX_HISTORY_ENTRIES, mergeHistory, saveHistory } from "./historyStore"
+import { createTableResult } from "../results"
+import { diedGame, GRID_3 } from "../test/fixtures"
+
+const run = (seed: string) => createTableResult("a*", "N/A", GRID_3, diedGame, seed);
+
+describe("saveHistory", () => {
+  it("saves every run that fits and reads them back", () => {
+    const results = [run("2"), run("1")];
+    expect(saveHistory(results)).toBe(2);
+    expect(loadHistory()).toEqual(results);
+  });
+
+  it("skips a run too large to store without dropping the older ones", () => {
+    const older = [run("2"), run("1")];
+    saveHistory(older);
+    const huge = { ...run("3"), meta: { source: "mock://backend", durationMs: 1, response: { log: "x".repeat(MAX_HISTORY_BYTES) } } };
+    expect(saveHistory([huge, ...older])).toBe(2);
+    expect(loadHistory()).toEqual(older);
+  });
+
+  it("saves an empty history when it is cleared", () => {
+    saveHistory([run("1")]);
+    expect(saveHistory([])).toBe(0);
+    expect(loadHistory()).toEqual([]);
+  });
+});
+
+describe("loadHistory", () => {
+  it("reports an unreadable saved history", () => {
+    localStorage.setItem(HISTORY_STORAGE_KEY, "{not json");
+    expect(loadHistory()).toBeNull();
+    localStorage.setItem(HISTORY_STORAGE_KEY, JSON.stringify({ format: "something else" }));
+    expect(loadHistory()).toBeNull();
+    localStorage.removeItem(HISTORY_STORAGE_KEY);
+    expect(loadHistory()).toEqual([]);
+  });
+});
+
+describe("isTableResult", () => {
+  it("requires a small positive integer board size", () => {
+    expect(isTableResult(run("1"))).toBe(true);
+    for (const replaySize of [0, -5, 2.5, 1e9, NaN]) expect(isTableResult({ ...run("1"), replaySize })).toBe(false);
+  });
+});
+
+describe("mergeHistory", () => {
+  const at = (seed: string, day: number) => ({ ...run(seed), timestamp: new Date(Date.UTC(2024, 0, day)).toISOString() });
+
+  it("orders imported runs among the current ones by when they ran", () => {
+    const current = [at("c2", 20), at("c1", 10)];
+    const imported = [at("i2", 15), at("i1", 5), current[0]];
+    const { results, added, dropped } = mergeHistory(current, imported);
+    expect(results.map((r) => r.seed)).toEqual(["c2", "i2", "c1", "i1"]);
+    expect(added).toBe(2);
+    expect(dropped).toBe(0);
+  });
+
+  it("keeps the newest runs within the limit and counts the current ones dropped", () => {
+    const current = Array.from({ length: MAX_HISTORY_ENTRIES }, (_, i) => at(`c${i}`, 100 - i / 10));
+    const old = Array.from({ length: 50 }, (_, i) => at(`old${i}`, 1));
+    expect(mergeHistory(current, old)).toMatchObject({ results: current, added: 0, dropped: 0 });
+
+    const recent = [at("new", 200)];
+    const merge = mergeHistory(current, recent);
+    expect(merge.results[0].seed).toBe("new");
+    expect(merge.results).toHaveLength(MAX_HISTORY_ENTRIES);
+    expect(merge).toMatchObject({ added: 1, dropped: 1 });
+  });
+
+  it("puts runs without a timestamp last", () => {
+    const { results } = mergeHistory([at("dated", 1)], [{ ...run("legacy"), timestamp: "" }]);
+    expect(results.map((r) => r.seed)).toEqual(["dated", "legacy"]);
+  });
+});
@@ -0,0 +1,164 @@
+/**
+ * File: historyStore.ts
+ * Description: Persists the simulation history to localStorage and converts it
+ * to and from the shareable JSON export format.
+ */
+import type { TableResult } from "../types"
+import { isGameState } from "../api/client"
+import { createId } from "../results"
+
+export const HISTORY_STORAGE_KEY = "ai-snake-agents:history"
+export const HISTORY_FORMAT = "ai-snake-agents-history"
+export const HISTORY_VERSION = 1
+
+/** Newest runs kept in memory and in storage */
+export const MAX_HISTORY_ENTRIES = 200
+/** Stay well under the ~5 MB localStorage quota most browsers give an origin */
+export const MAX_HISTORY_BYTES = 3_000_000
+/** Largest board side, walls included, a stored run may claim; far above any agent's */
+export const MAX_REPLAY_SIZE = 64
+
+export type HistoryFile = {
+  format: typeof HISTORY_FORMAT,
+  version: number,
+  exportedAt: string,
+  results: TableResult[]
+}
+
+/** Thrown when an imported file is not a history export this version understands */
+export class HistoryFormatError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "HistoryFormatError";
+  }
+}
+
+/**
+ * Drops the oldest results beyond the entry limit. History is newest first.
+ * @param results the full history
+ * @returns at most MAX_HISTORY_ENTRIES results
+ */
+export function limitHistory(results: TableResult[]): TableResult[] {
+  return results.length > MAX_HISTORY_ENTRIES ? results.slice(0, MAX_HISTORY_ENTRIES) : results;
+}
+
+/** The outcome of adding imported runs to the history */
+export type HistoryMerge = {
+  results: TableResult[],
+  /** Imported runs that are now in the history */
+  added: number,
+  /** Runs already in the history that fell past the entry limit */
+  dropped: number
+}
+
+/**
+ * Adds imported runs to the history, newest first by timestamp, then applies
+ * the entry limit. Runs already in the history are skipped, and runs without a
+ * timestamp count as the oldest.
+ * @param current the history, newest first
+ * @param imported the runs read from a file
+ * @returns the merged history and how many runs were added and dropped
+ */
+export function mergeHistory(current: TableResult[], imported: TableResult[]): HistoryMerge {
+  const known = new Set(current.map((r) => r.id));
+  const fresh = imported.filter((r) => !known.has(r.id));
+  // ISO timestamps sort as strings; the sort is stable, so equal ones keep their order
+  const merged = [...current, ...fresh].sort((a, b) => (b.timestamp > a.timestamp ? 1 : b.timestamp < a.timestamp ? -1 : 0));
+  const results = limitHistory(merged);
+  const kept = new Set(results.map((r) => r.id));
+  return {
+    results,
+    added: fresh.filter((r) => kept.has(r.id)).length,
+    dropped: current.filter((r) => !kept.has(r.id)).length
+  };
+}
+
+/**
+ * Runtime check for one history row, including its full replay. `id`, `seed`
+ * and `timestamp` are optional because older files do not have them.
+ * @param value any decoded JSON value
+ * @returns whether the value is a usable TableResult
+ */
+export function isTableResult(value: unknown): value is TableResult {
+  const r = value as Partial<Record<keyof TableResult, unknown>> | null;
+  if (!r) return false;
+  const strings = [r.agent, r.gridSize, r.train, r.avgMove, r.outcome, r.agentCode];
+  const numbers = [r.moveCount, r.fruitCount, r.finalLength];
+  return strings.every((v) => typeof v === "string")
+    && numbers.every((v) => typeof v === "number" && Number.isFinite(v))
+    // Walls on both sides around at least one cell
+    && Number.isInteger(r.replaySize) && (r.replaySize as number) >= 3 && (r.replaySize as number) <= MAX_REPLAY_SIZE
+    && Array.isArray(r.replay) && r.replay.length > 0 && r.replay.every(isGameState);
+}
+
+/**
+ * Wraps the history in the versioned export envelope.
+ * @param results the rows to export
+ * @returns the export file contents
+ */
+export function toHistoryFile(results: TableResult[]): HistoryFile {
+  return { format: HISTORY_FORMAT, version: HISTORY_VERSION, exportedAt: new Date().toISOString(), results };
+}
+
+/**
+ * Validates an export file and returns its rows.
+ * @param data the parsed JSON of an exported file
+ * @returns the results it contains, newest first
+ */
+export function parseHistoryFile(data: unknown): TableResult[] {
+  const file = data as Partial<HistoryFile> | null;
+  if (!file || file.format !== HISTORY_FORMAT) {
+    throw new HistoryFormatError("Not an AI Snake Agents history file");
+  }
+  if (typeof file.version !== "number" || file.version > HISTORY_VERSION) {
+    throw new HistoryFormatError(`Unsupported history file version: ${String(file.version)}`);
+  }
+  if (!Array.isArray(file.results)) {
+    throw new HistoryFormatError("History file has no results");
+  }
+  const bad = file.results.findIndex((r) => !isTableResult(r));
+  if (bad !== -1) throw new HistoryFormatError(`Result ${bad + 1} in the file is malformed`);
+  return file.results.map((r) => ({
+    ...r,
+    id: typeof r.id === "string" && r.id !== "" ? r.id : createId(),
+    seed: typeof r.seed === "string" ? r.seed : "",
+    timestamp: typeof r.timestamp === "string" ? r.timestamp : ""
+  }));
+}
+
+/**
+ * Reads the saved history.
+ * @returns the stored results, newest first, or null when what is stored is unreadable
+ */
+export function loadHistory(): TableResult[] | null {
+  try {
+    const raw = localStorage.getItem(HISTORY_STORAGE_KEY);
+    return raw ? limitHistory(parseHistoryFile(JSON.parse(raw))) : [];
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Saves the history, evicting the oldest runs until it fits the byte budget
+ * and the browser's storage quota. A run too large to fit on its own is
+ * skipped rather than evicting every run older than it.
+ * @param results the history to save, newest first
+ * @returns how many results were actually saved
+ */
+export function saveHistory(results: TableResult[]): number {
+  let kept = limitHistory(results).filter((r) => JSON.stringify(toHistoryFile([r])).length <= MAX_HISTORY_BYTES);
+  for (;;) {
+    const raw = JSON.stringify(toHistoryFile(kept));
+    if (raw.length <= MAX_HISTORY_BYTES) {
+      try {
+        localStorage.setItem(HISTORY_STORAGE_KEY, raw);
+        return kept.length;
+      } catch {
+        // Quota exceeded; evict more, unless there is nothing left to evict
+        if (kept.length === 0) return 0;
+      }
+    }
+    kept = kept.slice(0, Math.floor(kept.length * 0.75));
+  }
+}
@@ -0,0 +1,47 @@
+/**
+ * File: useAgentCatalog.ts
+ * Description: The agent catalog, fetched from the backend once it is live.
+ */
+import { useEffect, useState } from "react"
+import type { AgentInfo } from "../types"
+import { api, type ApiClient } from "../api/client"
+import { bundledCatalog, rememberAgentNames, withLocalAgents } from "../agents/catalog"
+
+export type AgentCatalog = {
+  agents: AgentInfo[],
+  /** Where the backend agents came from */
+  source: "bundled" | "backend",
+  /** Why the backend list could not be loaded, if it could not */
+  error: string | null
+}
+
+/**
+ * Starts with the bundled catalog and replaces it with the backend's `/agents`
+ * list once the server is live. If the request fails, e.g. because the backend
+ * predates the endpoint, the bundled catalog stays in use.
+ * @param whenLive resolves once the backend is reachable, e.g. from useServerHealth
+ * @param client the API client to use
+ * @returns the catalog and where it came from
+ */
+export function useAgentCatalog(whenLive: (signal?: AbortSignal) => Promise<void>, client: ApiClient = api): AgentCatalog {
+  const [catalog, setCatalog] = useState<AgentCatalog>({ agents: bundledCatalog, source: "bundled", error: null });
+
+  useEffect(() => {
+    const controller = new AbortController();
+    const load = async () => {
+      try {
+        await whenLive(controller.signal);
+        const agents = withLocalAgents(await client.agents({ signal: controller.signal }));
+        rememberAgentNames(agents);
+        setCatalog({ agents, source: "backend", error: null });
+      } catch (err) {
+        if (controller.signal.aborted) return;
+        setCatalog((c) => ({ ...c, error: err instanceof Error ? err.message : String(err) }));
+      }
+    };
+    void load();
+    return () => controller.abort();
+  }, [whenLive, client]);
+
+  return catalog;
+}
@@ -0,0 +1,36 @@
+/**
+ * File: useHistory.ts
+ * Description: Simulation history state that survives page reloads.
+ */
+import { useCallback, useRef, useState } from "react"
+import type { TableResult } from "../types"
+import { limitHistory, loadHistory, saveHistory } from "../history/historyStore"
+
+/** Sets the history like a state setter, and returns how many of its runs were saved */
+export type SetHistory = (action: React.SetStateAction<TableResult[]>) => number
+
+/**
+ * Works like `useState<TableResult[]>` but is initialised from localStorage and
+ * writes every change back. Only the newest MAX_HISTORY_ENTRIES rows are kept.
+ * An unreadable saved history starts empty and is replaced on the first change.
+ * @returns the history (newest first), its setter, how many of its runs are saved in storage,
+ * and whether the saved history was unreadable
+ */
+export function useHistory(): [TableResult[], SetHistory, number, boolean] {
+  const [loaded] = useState(loadHistory);
+  const [results, setResults] = useState<TableResult[]>(loaded ?? []);
+  const [saved, setSaved] = useState(results.length);
+  // Updates are saved as they are made, so functional updates need the latest history
+  const latest = useRef(results);
+
+  const setLimited = useCallback((action: React.SetStateAction<TableResult[]>) => {
+    const next = limitHistory(typeof action === "function" ? action(latest.current) : action);
+    latest.current = next;
+    setResults(next);
+    const saved = saveHistory(next);
+    setSaved(saved);
+    return saved;
+  }, []);
+
+  return [results, setLimited, saved, loaded === null];
+}
@@ -0,0 +1,107 @@
+/**
+ * File: useHumanGame.ts
+ * Description: A keyboard-controlled snake game on the local engine.
+ */
+import { useCallback, useEffect, useRef, useState } from "react"
+import type { GameState } from "../types"
+import { createSnakeEngine, type Direction, type EngineOptions, type SnakeEngine } from "../engine/engine"
+
+export type HumanGameStatus = "idle" | "ready" | "running" | "finished"
+
+export type HumanGameOptions = EngineOptions & {
+  /** Milliseconds between moves */
+  tickMs: number
+}
+
+export type HumanGame = {
+  status: HumanGameStatus,
+  /** Every state of the current or last game */
+  states: GameState[],
+  /** The options the current or last game was started with */
+  options: HumanGameOptions | null,
+  /** Sets up a new board; the snake starts moving on the first direction key */
+  start: (options: HumanGameOptions) => void,
+  /** Abandons the current game without recording it */
+  stop: () => void,
+  turn: (direction: Direction) => void
+}
+
+const keyDirections: Record<string, Direction> = {
+  ArrowUp: "up", ArrowDown: "down", ArrowLeft: "left", ArrowRight: "right",
+  w: "up", s: "down", a: "left", d: "right"
+}
+
+/**
+ * Runs a human-controlled game. Arrow keys or WASD steer while a game is ready
+ * or running, and Escape abandons it.
+ * @param onFinish called once with every state when the game is won or lost,
+ *   along with its options and how long it was played in milliseconds
+ * @returns the game state and its controls
+ */
+export function useHumanGame(onFinish: (states: GameState[], options: HumanGameOptions, durationMs: number) => void): HumanGame {
+  const [status, setStatus] = useState<HumanGameStatus>("idle");
+  const [states, setStates] = useState<GameState[]>([]);
+  const [options, setOptions] = useState<HumanGameOptions | null>(null);
+  const engineRef = useRef<SnakeEngine | null>(null);
+  const turnsRef = useRef<Direction[]>([]);
+  const startedAtRef = useRef<number>(0);
+  const onFinishRef = useRef(onFinish);
+
+  useEffect(() => { onFinishRef.current = onFinish; });
+
+  const start = useCallback((next: HumanGameOptions) => {
+    const engine = createSnakeEngine(next);
+    engineRef.current = engine;
+    turnsRef.current = [];
+    setOptions(next);
+    setStates([...engine.states]);
+    setStatus("ready");
+  }, []);
+
+  const stop = useCallback(() => {
+    engineRef.current = null;
+    setStatus("idle");
+  }, []);
+
+  // Up to two turns are buffered so a quick double turn is not lost between ticks
+  const turn = useCallback((direction: Direction) => {
+    if (!engineRef.current || engineRef.current.finished) return;
+    const turns = turnsRef.current;
+    if (engineRef.current.heading === null && turns.length === 0) startedAtRef.current = Date.now(); // first key
+    if (turns.length < 2 && turns[turns.length - 1] !== direction) turns.push(direction);
+    setStatus((s) => (s === "ready" ? "running" : s));
+  }, []);
+
+  useEffect(() => { // move the snake every tick
+    const engine = engineRef.current;
+    if (status !== "running" || !engine || !options) return;
+    const id = setInterval(() => {
+      const direction = turnsRef.current.shift() ?? engine.heading;
+      if (!direction) return;
+      engine.step(direction);
+      setStates([...engine.states]);
+      if (engine.finished) {
+        clearInterval(id);
+        setStatus("finished");
+        onFinishRef.current([...engine.states], options, Date.now() - startedAtRef.current);
+      }
+    }, options.tickMs);
+    return () => clearInterval(id);
+  }, [status, options]);
+
+  useEffect(() => { // steer with the keyboard while a game is on
+    if (status !== "ready" && status !== "running") return;
+    const onKey = (e: KeyboardEvent) => {
+      if (e.target instanceof Element && e.target.closest("input, select, textarea")) return;
+      const direction = keyDirections[e.key.length === 1 ? e.key.toLowerCase() : e.key];
+      if (direction) turn(direction);
+      else if (e.key === "Escape") stop();
+      else return;
+      e.preventDefault();
+    };
+    window.addEventListener("keydown", onKey);
+    return () => window.removeEventListener("keydown", onKey);
+  }, [status, turn, stop]);
+
+  return { status, states, options, start, stop, turn };
+}
@@ -0,0 +1,20 @@
+/**
+ * File: usePreferences.ts
+ * Description: Display preferences that survive page reloads.
+ */
+import { useCallback, useEffect, useState } from "react"
+import { loadPreferences, savePreferences, type Preferences } from "../preferences/preferencesStore"
+
+/**
+ * Loads the saved preferences and writes every change back.
+ * @returns the preferences and a function to change some of them
+ */
+export function usePreferences(): [Preferences, (changes: Partial<Preferences>) => void] {
+  const [preferences, setPreferences] = useState<Preferences>(loadPreferences);
+
+  useEffect(() => { savePreferences(preferences); }, [preferences]);
+
+  const update = useCallback((changes: Partial<Preferences>) => setPreferences((p) => ({ ...p, ...changes })), []);
+
+  return [preferences, update];
+}
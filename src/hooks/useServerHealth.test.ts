@@ -0,0 +1,74 @@
+import { describe, expect, it, vi } from "vitest"
+import { renderHook, waitFor } from "@testing-library/react"
+import { backoffDelay, useServerHealth } from "./useServerHealth"
+import { ApiError, type ApiClient } from "../api/client"
+
+// A client whose ping fails until `up` is set
+function fakeClient() {
+  const server = { up: false };
+  const ping = vi.fn(async () => {
+    if (!server.up) throw new ApiError("network", "Server is asleep");
+  });
+  return { server, ping, client: { ping, simulate: vi.fn(), agents: vi.fn() } as unknown as ApiClient };
+}
+
+const fast = { liveIntervalMs: 60_000, baseDelayMs: 5, maxDelayMs: 20, maxFailures: 2 };
+
+describe("backoffDelay", () => {
+  it("doubles after each failure up to the limit", () => {
+    expect([1, 2, 3, 4, 10].map((n) => backoffDelay(n, 1000, 5000))).toEqual([1000, 2000, 4000, 5000, 5000]);
+    expect(backoffDelay(0, 1000, 5000)).toBe(1000);
+  });
+});
+
+describe("useServerHealth", () => {
+  it("goes from sleeping to live and resolves the waiters", async () => {
+    const { server, client } = fakeClient();
+    server.up = true;
+    const { result } = renderHook(() => useServerHealth(client, fast));
+    expect(result.current.status).toBe("sleeping");
+    await waitFor(() => expect(result.current.status).toBe("live"));
+    expect(result.current.latencyMs).not.toBeNull();
+    expect(result.current.lastError).toBeNull();
+    await expect(result.current.whenLive()).resolves.toBeUndefined();
+  });
+
+  it("retries failed checks, reports the server unreachable, then recovers", async () => {
+    const { server, ping, client } = fakeClient();
+    const seen: string[] = [];
+    const { result } = renderHook(() => {
+      const health = useServerHealth(client, fast);
+      if (seen[seen.length - 1] !== health.status) seen.push(health.status);
+      return health;
+    });
+    const live = result.current.whenLive();
+
+    await waitFor(() => expect(result.current.status).toBe("unreachable"));
+    expect(seen).toEqual(["sleeping", "waking", "unreachable"]);
+    expect(result.current.lastError).toBe("Server is asleep");
+    expect(ping.mock.calls.length).toBeGreaterThanOrEqual(2);
+
+    server.up = true;
+    await waitFor(() => expect(result.current.status).toBe("live"));
+    await expect(live).resolves.toBeUndefined();
+  });
+
+  it("checks at once when asked instead of waiting for the next retry", async () => {
+    const { server, ping, client } = fakeClient();
+    const { result } = renderHook(() => useServerHealth(client, { ...fast, baseDelayMs: 60_000, maxDelayMs: 60_000 }));
+    await waitFor(() => expect(ping).toHaveBeenCalledTimes(1));
+    await waitFor(() => expect(result.current.lastError).not.toBeNull());
+    server.up = true;
+    result.current.checkNow();
+    await waitFor(() => expect(result.current.status).toBe("live"));
+  });
+
+  it("stops waiting for the server when the signal aborts", async () => {
+    const { client } = fakeClient();
+    const { result } = renderHook(() => useServerHealth(client, fast));
+    const controller = new AbortController();
+    const waiting = result.current.whenLive(controller.signal);
+    controller.abort();
+    await expect(waiting).rejects.toMatchObject({ kind: "aborted" });
+  });
+});
@@ -0,0 +1,143 @@
+/**
+ * File: useServerHealth.ts
+ * Description: Polls the backend `/ping` route and tracks whether the server is
+ * sleeping, waking up, live or unreachable.
+ */
+import { useCallback, useEffect, useRef, useState } from "react"
+import { api, ApiError, type ApiClient } from "../api/client"
+
+/**
+ * - sleeping: no check has been made yet
+ * - waking: a check is in flight or being retried (e.g. a Render cold start)
+ * - live: the last check succeeded
+ * - unreachable: several checks in a row have failed
+ */
+export type ServerStatus = "sleeping" | "waking" | "live" | "unreachable"
+
+export type ServerHealth = {
+  status: ServerStatus,
+  /** Round trip time of the last successful ping */
+  latencyMs: number | null,
+  /** Epoch milliseconds of the last completed check */
+  lastCheckedAt: number | null,
+  lastError: string | null,
+  /** Run a check immediately instead of waiting for the next poll */
+  checkNow: () => void,
+  /** Resolves once the server is live; rejects if the signal aborts first */
+  whenLive: (signal?: AbortSignal) => Promise<void>
+}
+
+export type HealthOptions = {
+  /** Poll interval while the server is live */
+  liveIntervalMs?: number,
+  /** First retry delay after a failed check, doubled on each further failure */
+  baseDelayMs?: number,
+  maxDelayMs?: number,
+  /** Consecutive failures before the server is reported as unreachable */
+  maxFailures?: number
+}
+
+type HealthState = Pick<ServerHealth, "status" | "latencyMs" | "lastCheckedAt" | "lastError">
+
+/**
+ * Computes the exponential backoff delay before the next retry.
+ * @param failures the number of consecutive failed checks (at least 1)
+ * @param baseDelayMs the delay after the first failure
+ * @param maxDelayMs the upper bound on the delay
+ * @returns the delay in milliseconds
+ */
+export function backoffDelay(failures: number, baseDelayMs: number, maxDelayMs: number): number {
+  return Math.min(maxDelayMs, baseDelayMs * 2 ** Math.max(0, failures - 1));
+}
+
+/**
+ * Keeps polling the backend for as long as the calling component is mounted.
+ * @param client the API client to ping
+ * @param options polling and backoff settings
+ * @returns the current health and controls for it
+ */
+export function useServerHealth(client: ApiClient = api, options: HealthOptions = {}): ServerHealth {
+  const { liveIntervalMs = 30_000, baseDelayMs = 1_000, maxDelayMs = 30_000, maxFailures = 4 } = options;
+  const [health, setHealth] = useState<HealthState>({
+    status: "sleeping", latencyMs: null, lastCheckedAt: null, lastError: null
+  });
+  const checkRef = useRef<() => void>(() => {});
+  const liveRef = useRef(false);
+  const waitersRef = useRef(new Set<() => void>());
+
+  useEffect(() => {
+    const controller = new AbortController();
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    let inFlight = false;
+    let failures = 0;
+
+    const setLive = (live: boolean) => {
+      liveRef.current = live;
+      if (!live) return;
+      waitersRef.current.forEach((resolve) => resolve());
+      waitersRef.current.clear();
+    };
+
+    const check = async () => {
+      if (inFlight || controller.signal.aborted) return;
+      inFlight = true;
+      clearTimeout(timer);
+      // Yield first so state updates never happen synchronously inside the effect
+      await Promise.resolve();
+      setHealth((h) => (h.status === "sleeping" ? { ...h, status: "waking" } : h));
+
+      const started = performance.now();
+      try {
+        await client.ping({ signal: controller.signal });
+        failures = 0;
+        setLive(true);
+        setHealth({
+          status: "live",
+          latencyMs: Math.round(performance.now() - started),
+          lastCheckedAt: Date.now(),
+          lastError: null
+        });
+        timer = setTimeout(check, liveIntervalMs);
+      } catch (err) {
+        if (controller.signal.aborted) return;
+        failures++;
+        setLive(false);
+        setHealth((h) => ({
+          ...h,
+          status: failures >= maxFailures ? "unreachable" : "waking",
+          lastCheckedAt: Date.now(),
+          lastError: err instanceof ApiError ? err.message : String(err)
+        }));
+        timer = setTimeout(check, backoffDelay(failures, baseDelayMs, maxDelayMs));
+      } finally {
+        inFlight = false;
+      }
+    };
+
+    checkRef.current = () => { void check(); };
+    void check();
+    return () => {
+      controller.abort();
+      clearTimeout(timer);
+    };
+  }, [client, liveIntervalMs, baseDelayMs, maxDelayMs, maxFailures]);
+
+  const checkNow = useCallback(() => checkRef.current(), []);
+
+  const whenLive = useCallback((signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+    if (liveRef.current) return resolve();
+    const onAbort = () => {
+      waitersRef.current.delete(done);
+      reject(new ApiError("aborted", "Stopped waiting for the server"));
+    };
+    const done = () => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    };
+    if (signal?.aborted) return onAbort();
+    waitersRef.current.add(done);
+    signal?.addEventListener("abort", onAbort, { once: true });
+  }), []);
+
+  return { ...health, checkNow, whenLive };
+}
@@ -0,0 +1,47 @@
+import { describe, expect, it } from "vitest"
+import { defaultPreferences, loadPreferences, PREFERENCES_STORAGE_KEY, savePreferences } from "./preferencesStore"
+import { slotSnakeColors } from "../comparison/slots"
+
+describe("preferences store", () => {
+  it("round-trips saved preferences", () => {
+    const preferences = {
+      ...defaultPreferences,
+      highContrast: true,
+      boardTheme: "custom" as const,
+      customPalette: { ...defaultPreferences.customPalette, fruit: "#ffffff" },
+      snakeColors: ["#000000", "", "", "", "", ""],
+      gridLines: false,
+      overlays: defaultPreferences.overlays.map((o, i) => ({ ...o, heatmap: i === 1 })),
+      trailLength: 50
+    };
+    savePreferences(preferences);
+    expect(loadPreferences()).toEqual(preferences);
+  });
+
+  it("falls back to the defaults for missing, invalid or unreadable values", () => {
+    expect(loadPreferences()).toEqual(defaultPreferences);
+    localStorage.setItem(PREFERENCES_STORAGE_KEY, JSON.stringify({ highContrast: "yes", boardTheme: "neon" }));
+    expect(loadPreferences()).toEqual(defaultPreferences);
+    localStorage.setItem(PREFERENCES_STORAGE_KEY, "{not json");
+    expect(loadPreferences()).toEqual(defaultPreferences);
+  });
+
+  it("keeps the valid parts of saved colors", () => {
+    localStorage.setItem(PREFERENCES_STORAGE_KEY, JSON.stringify({
+      customPalette: { wall: "#111111", fruit: "red" },
+      snakeColors: ["#222222", 7]
+    }));
+    const { customPalette, snakeColors } = loadPreferences();
+    expect(customPalette.wall).toBe("#111111");
+    expect(customPalette.fruit).toBe(defaultPreferences.customPalette.fruit);
+    expect(snakeColors).toEqual(["#222222", ...slotSnakeColors.slice(1)]);
+  });
+
+  it("turns the single overlay switches of older versions into per-slot overlays", () => {
+    localStorage.setItem(PREFERENCES_STORAGE_KEY, JSON.stringify({ heatmap: true, trail: false, trailLength: 0 }));
+    const { overlays, trailLength } = loadPreferences();
+    expect(overlays).toHaveLength(6);
+    expect(overlays.every((o) => o.heatmap && !o.trail && !o.fruit)).toBe(true);
+    expect(trailLength).toBe(defaultPreferences.trailLength);
+  });
+});
@@ -0,0 +1,118 @@
+/**
+ * File: preferencesStore.ts
+ * Description: Display preferences, persisted to localStorage.
+ */
+import { MAX_SLOTS, slotSnakeColors } from "../comparison/slots"
+import {
+  boardThemeLabels, defaultCustomPalette, isHexColor, type BoardThemeName, type CustomPalette
+} from "../render/themes"
+import {
+  MAX_TRAIL_LENGTH, MIN_TRAIL_LENGTH, noOverlays, TRAIL_LENGTH, type BoardOverlays
+} from "../render/overlays"
+
+export const PREFERENCES_STORAGE_KEY = "ai-snake-agents:preferences"
+
+export type Preferences = {
+  /** Black and white board with colorblind-safe snake and fruit colors; overrides the board theme */
+  highContrast: boolean,
+  boardTheme: BoardThemeName,
+  /** Colors of the "custom" board theme */
+  customPalette: CustomPalette,
+  /** Snake color per comparison slot as "#rrggbb"; "" uses the board theme's snake */
+  snakeColors: string[],
+  /** Whether every cell is outlined */
+  gridLines: boolean,
+  /** Replay overlays per comparison slot */
+  overlays: BoardOverlays[],
+  /** How many of the latest moves the trail follows */
+  trailLength: number
+}
+
+export const defaultPreferences: Preferences = {
+  highContrast: false,
+  boardTheme: "classic",
+  customPalette: defaultCustomPalette,
+  snakeColors: slotSnakeColors,
+  gridLines: true,
+  overlays: Array.from({ length: MAX_SLOTS }, () => noOverlays),
+  trailLength: TRAIL_LENGTH
+}
+
+// Keeps the valid colors of a saved palette
+function readPalette(value: unknown): CustomPalette {
+  const saved = typeof value === "object" && value !== null ? value as Record<string, unknown> : {};
+  const palette = { ...defaultCustomPalette };
+  (Object.keys(palette) as (keyof CustomPalette)[]).forEach((key) => {
+    const color = saved[key];
+    if (isHexColor(color)) palette[key] = color;
+  });
+  return palette;
+}
+
+// One entry per slot; invalid entries fall back to the slot's default
+function readSnakeColors(value: unknown): string[] {
+  const saved = Array.isArray(value) ? value : [];
+  return Array.from({ length: MAX_SLOTS }, (_, i) =>
+    saved[i] === "" || isHexColor(saved[i]) ? saved[i] as string : slotSnakeColors[i]);
+}
+
+const readBoolean = (value: unknown, fallback: boolean) => (typeof value === "boolean" ? value : fallback);
+
+// One entry per slot. Earlier versions saved a single heatmap and trail switch for
+// every board, which becomes the fallback for each slot.
+function readOverlays(value: unknown, saved: Record<string, unknown> | null): BoardOverlays[] {
+  const entries = Array.isArray(value) ? value : [];
+  const fallback: BoardOverlays = {
+    heatmap: readBoolean(saved?.heatmap, false),
+    trail: readBoolean(saved?.trail, false),
+    fruit: false
+  };
+  return Array.from({ length: MAX_SLOTS }, (_, i) => {
+    const entry = typeof entries[i] === "object" && entries[i] !== null ? entries[i] as Record<string, unknown> : {};
+    return {
+      heatmap: readBoolean(entry.heatmap, fallback.heatmap),
+      trail: readBoolean(entry.trail, fallback.trail),
+      fruit: readBoolean(entry.fruit, fallback.fruit)
+    };
+  });
+}
+
+function readTrailLength(value: unknown): number {
+  return Number.isInteger(value) && (value as number) >= MIN_TRAIL_LENGTH && (value as number) <= MAX_TRAIL_LENGTH
+    ? value as number : TRAIL_LENGTH;
+}
+
+/**
+ * Reads the saved preferences. Missing or unreadable values fall back to the
+ * defaults, so preferences saved by older versions still load.
+ * @returns the preferences
+ */
+export function loadPreferences(): Preferences {
+  try {
+    const saved = JSON.parse(localStorage.getItem(PREFERENCES_STORAGE_KEY) ?? "{}") as Record<string, unknown> | null;
+    const theme = saved?.boardTheme;
+    return {
+      highContrast: readBoolean(saved?.highContrast, defaultPreferences.highContrast),
+      boardTheme: typeof theme === "string" && theme in boardThemeLabels ? theme as BoardThemeName : defaultPreferences.boardTheme,
+      customPalette: readPalette(saved?.customPalette),
+      snakeColors: readSnakeColors(saved?.snakeColors),
+      gridLines: readBoolean(saved?.gridLines, defaultPreferences.gridLines),
+      overlays: readOverlays(saved?.overlays, saved),
+      trailLength: readTrailLength(saved?.trailLength)
+    };
+  } catch {
+    return defaultPreferences;
+  }
+}
+
+/**
+ * Saves the preferences; storage errors are ignored since they only cost the setting.
+ * @param preferences the preferences to save
+ */
+export function savePreferences(preferences: Preferences): void {
+  try {
+    localStorage.setItem(PREFERENCES_STORAGE_KEY, JSON.stringify(preferences));
+  } catch {
+    // Storage full or disabled; the preferences still apply for this visit
+  }
+}
@@ -0,0 +1,235 @@
+/**
+ * File: board.ts
+ * Description: Canvas drawing for the snake board. Kept free of React so the
+ * same code can render on screen and into exported images. The head, tail and
+ * fruit carry glyphs, so they can be told apart without relying on color.
+ */
+import type { GameState } from "../types"
+
+export type BoardTheme = {
+  wall: string,
+  wallBorder: string,
+  cellBorder: string,
+  cellLight: string,
+  cellDark: string,
+  fruit: string,
+  /** Outline of cells that break the rules */
+  highlight: string,
+  /** Outline of the cell explored with the keyboard */
+  cursor: string,
+  /** The head's recent path */
+  trail: string,
+  /** Cells the head visited; more visits are more opaque */
+  heatmap: string,
+  /** Whether every cell is outlined */
+  gridLines: boolean,
+  /** Snake gradient: hue and saturation, and lightness (%) from the head to the tail */
+  snakeHue: number,
+  snakeSaturation: number,
+  snakeLightness: [number, number]
+}
+
+export const boardColors: BoardTheme = {
+  wall: "#000000",
+  wallBorder: "rgba(14, 116, 144, 0.8)", // cyan-700/80
+  cellBorder: "rgba(0, 0, 0, 0.35)",
+  cellLight: "#86efac",                  // green-300
+  cellDark: "rgba(34, 197, 94, 0.9)",    // green-500/90
+  fruit: "#ef4444",                      // red-500
+  highlight: "#f43f5e",                  // rose-500
+  cursor: "#facc15",                     // yellow-400
+  trail: "#facc15",                      // yellow-400
+  heatmap: "#dc2626",                    // red-600
+  gridLines: true,
+  snakeHue: 210,                         // blue
+  snakeSaturation: 90,
+  snakeLightness: [30, 90]
+}
+
+/** Black and white cells with a blue snake and vermilion fruit (Okabe-Ito), safe for color blindness */
+export const highContrastBoardColors: BoardTheme = {
+  wall: "#000000",
+  wallBorder: "#000000",
+  cellBorder: "rgba(0, 0, 0, 0.6)",
+  cellLight: "#ffffff",
+  cellDark: "#d4d4d4",
+  fruit: "#d55e00",
+  highlight: "#cc79a7",
+  cursor: "#000000",
+  trail: "#000000",
+  heatmap: "#e69f00",
+  gridLines: true,
+  snakeHue: 202,
+  snakeSaturation: 100,
+  snakeLightness: [20, 50]
+}
+
+/**
+ * A helper function for determining the color of a snake square by
+ * calculating the hue, saturation, and lightness.
+ * @param index The position from the head of the body part being colored
+ * @param maxScale The maximum snake size (the size of the grid)
+ * @param theme the board theme whose snake gradient to use
+ * @returns a string of the proper color
+ */
+export function snakeColor(index: number, maxScale: number, theme: BoardTheme = boardColors): string {
+  // clamp for safety
+  const t = Math.max(0, Math.min(1, (maxScale - index) / maxScale))
+
+  // Dark to light along the body
+  const hue = theme.snakeHue
+  const saturation = theme.snakeSaturation // %
+  const [lightnessMin, lightnessMax] = theme.snakeLightness
+
+  const lightness =
+    lightnessMin + t * (lightnessMax - lightnessMin)
+
+  return `hsl(${hue}, ${saturation}%, ${lightness}%)`
+}
+
+/**
+ * Colors for every possible snake segment, head first: dark at the head and
+ * lighter towards the tail.
+ * @param gridSize a number N representing the size of an NxN grid, walls included
+ * @param theme the board theme whose snake gradient to use
+ * @returns one color per segment index
+ */
+export function snakePalette(gridSize: number, theme: BoardTheme = boardColors): string[] {
+  const maxSnake = Math.max(1, (gridSize - 2) * (gridSize - 2));
+  return Array.from({ length: maxSnake }, (_, i) => snakeColor(i + 1, maxSnake, theme)).reverse();
+}
+
+/**
+ * Draws the parts of the board that never change: walls and the checkerboard.
+ * @param ctx the context to draw into, scaled to CSS pixels
+ * @param gridSize a number N representing the size of an NxN grid, walls included
+ * @param cell the size of one cell in CSS pixels
+ * @param theme the board theme
+ */
+export function drawBackground(ctx: CanvasRenderingContext2D, gridSize: number, cell: number, theme: BoardTheme = boardColors): void {
+  ctx.lineWidth = 1;
+  for (let i = 0; i < gridSize * gridSize; i++) {
+    const row = Math.floor(i / gridSize);
+    const col = i % gridSize;
+    const isWall = row === 0 || row === gridSize - 1 || col === 0 || col === gridSize - 1;
+    ctx.fillStyle = isWall ? theme.wall : i % 2 ? theme.cellDark : theme.cellLight;
+    ctx.fillRect(col * cell, row * cell, cell, cell);
+    if (!isWall && !theme.gridLines) continue;
+    ctx.strokeStyle = isWall ? theme.wallBorder : theme.cellBorder;
+    ctx.strokeRect(col * cell + 0.5, row * cell + 0.5, cell - 1, cell - 1);
+  }
+}
+
+export type PiecesFrame = {
+  /** A number N representing the size of an NxN grid, walls included */
+  gridSize: number,
+  /** The size of one cell in CSS pixels */
+  cell: number,
+  state: GameState,
+  /** The state one step earlier; when given, segments slide from it by `progress` */
+  previous?: GameState,
+  /** Animation progress between `previous` and `state`, from 0 to 1 */
+  progress?: number,
+  palette: string[],
+  theme?: BoardTheme
+}
+
+// Glyphs are left out below this cell size, where they would only be noise
+const MIN_GLYPH_CELL_PX = 10
+
+// Draws a white shape with a dark outline, visible on any cell color
+function drawGlyph(ctx: CanvasRenderingContext2D, cell: number, shape: () => void): void {
+  ctx.beginPath();
+  shape();
+  ctx.closePath();
+  ctx.fillStyle = "#ffffff";
+  ctx.fill();
+  ctx.lineWidth = Math.max(1, cell / 16);
+  ctx.strokeStyle = "#000000";
+  ctx.stroke();
+  ctx.lineWidth = 1;
+}
+
+/**
+ * Draws the fruit and the snake on top of the background.
+ * @param ctx the context to draw into, scaled to CSS pixels
+ * @param frame what to draw
+ */
+export function drawPieces(ctx: CanvasRenderingContext2D, frame: PiecesFrame): void {
+  const { gridSize, cell, state, previous, progress = 1, palette, theme = boardColors } = frame;
+  const position = (i: number) => ({ x: (i % gridSize) * cell, y: Math.floor(i / gridSize) * cell });
+  const glyphs = cell >= MIN_GLYPH_CELL_PX;
+  const middle = cell / 2;
+
+  if (state.fruit >= 0) {
+    const { x, y } = position(state.fruit);
+    ctx.fillStyle = theme.fruit;
+    ctx.fillRect(x, y, cell, cell);
+    if (glyphs) { // a diamond
+      const r = cell * 0.28;
+      drawGlyph(ctx, cell, () => {
+        ctx.moveTo(x + middle, y + middle - r);
+        ctx.lineTo(x + middle + r, y + middle);
+        ctx.lineTo(x + middle, y + middle + r);
+        ctx.lineTo(x + middle - r, y + middle);
+      });
+    }
+  }
+
+  // The head points the way it last moved; a lone head has no direction yet
+  const neck = state.snake.length > 1 ? state.snake[1] : previous?.snake[0];
+  const headFrom = neck !== undefined && neck !== state.snake[0] ? position(neck) : undefined;
+
+  // Tail first so the head is drawn on top
+  for (let k = state.snake.length - 1; k >= 0; k--) {
+    const to = position(state.snake[k]);
+    // A segment that just grew has no earlier position; it appears in place
+    const from = previous && k < previous.snake.length ? position(previous.snake[k]) : to;
+    const x = from.x + (to.x - from.x) * progress;
+    const y = from.y + (to.y - from.y) * progress;
+    ctx.fillStyle = palette[Math.min(k, palette.length - 1)];
+    ctx.fillRect(x, y, cell, cell);
+    ctx.strokeStyle = theme.cellBorder;
+    ctx.strokeRect(x + 0.5, y + 0.5, cell - 1, cell - 1);
+    if (!glyphs) continue;
+
+    const cx = x + middle;
+    const cy = y + middle;
+    if (k === 0 && headFrom) { // an arrowhead
+      const dx = Math.sign(to.x - headFrom.x);
+      const dy = Math.sign(to.y - headFrom.y);
+      const r = cell * 0.3;
+      drawGlyph(ctx, cell, () => {
+        ctx.moveTo(cx + dx * r, cy + dy * r);
+        ctx.lineTo(cx - dx * r - dy * r, cy - dy * r + dx * r);
+        ctx.lineTo(cx - dx * r + dy * r, cy - dy * r - dx * r);
+      });
+    } else if (k === 0) { // a round head
+      drawGlyph(ctx, cell, () => ctx.arc(cx, cy, cell * 0.25, 0, Math.PI * 2));
+    } else if (k === state.snake.length - 1) { // a small square tail tip
+      const r = cell * 0.14;
+      drawGlyph(ctx, cell, () => ctx.rect(cx - r, cy - r, r * 2, r * 2));
+    }
+  }
+}
+
+/**
+ * Outlines cells that need attention, e.g. where a replay breaks the rules.
+ * @param ctx the context to draw into, scaled to CSS pixels
+ * @param gridSize a number N representing the size of an NxN grid, walls included
+ * @param cell the size of one cell in CSS pixels
+ * @param cells the walled indices of the cells to outline
+ * @param color the outline color
+ */
+export function drawHighlights(ctx: CanvasRenderingContext2D, gridSize: number, cell: number, cells: number[],
+    color: string = boardColors.highlight): void {
+  const width = Math.max(2, cell / 8);
+  ctx.lineWidth = width;
+  ctx.strokeStyle = color;
+  cells.forEach((i) => {
+    const x = (i % gridSize) * cell;
+    const y = Math.floor(i / gridSize) * cell;
+    ctx.strokeRect(x + width / 2, y + width / 2, cell - width, cell - width);
+  });
+  ctx.lineWidth = 1;
+}
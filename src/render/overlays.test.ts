@@ -0,0 +1,40 @@
+import { describe, expect, it } from "vitest"
+import { fruitMarkers, headTrail, visitCounts, visitSummary } from "./overlays"
+import { diedGame, GRID_3, wonGame } from "../test/fixtures"
+
+describe("replay overlays", () => {
+  it("count the head's visits up to the step", () => {
+    const counts = visitCounts(diedGame, 4, GRID_3);
+    expect(counts[12]).toBe(1);
+    expect(counts[13]).toBe(1);
+    expect(counts[6]).toBe(1);
+    expect(counts.reduce((a, b) => a + b)).toBe(5);
+  });
+
+  it("do not count the final board of a death as another visit", () => {
+    const counts = visitCounts(diedGame, 7, GRID_3);
+    expect(counts[16]).toBe(1);
+    expect(counts.reduce((a, b) => a + b)).toBe(7);
+  });
+
+  it("follow the head over the latest moves, oldest first", () => {
+    expect(headTrail(diedGame, 4)).toEqual([12, 13, 8, 7, 6]);
+    expect(headTrail(diedGame, 4, 2)).toEqual([8, 7, 6]);
+    expect(headTrail(diedGame, 7, 2)).toEqual([11, 16]);
+    expect(headTrail([], 3)).toEqual([]);
+  });
+
+  it("summarise how much of the board the head covered", () => {
+    expect(visitSummary(visitCounts(diedGame, 7, GRID_3), GRID_3)).toEqual({ visited: 7, cells: 9, max: 1 });
+    expect(visitSummary(visitCounts([], 0, GRID_3), GRID_3)).toEqual({ visited: 0, cells: 9, max: 0 });
+  });
+
+  it("mark every fruit eaten with when it spawned and was collected", () => {
+    expect(fruitMarkers(diedGame, 7)).toEqual([
+      { cell: 13, order: 1, spawned: 0, collected: 1 },
+      { cell: 6, order: 2, spawned: 1, collected: 4 }
+    ]);
+    expect(fruitMarkers(diedGame, 3)).toHaveLength(1);
+    expect(fruitMarkers(wonGame, 3).map((m) => m.cell)).toEqual([6, 10, 9]);
+  });
+});
@@ -0,0 +1,185 @@
+/**
+ * File: overlays.ts
+ * Description: Overlays drawn over the board from the replay so far: a heatmap
+ * of the cells the head visited, a trail of its most recent moves and markers
+ * where each fruit was collected.
+ */
+import type { GameState } from "../types"
+
+/** Which overlays to draw */
+export type BoardOverlays = {
+  heatmap: boolean,
+  trail: boolean,
+  fruit: boolean
+}
+
+export const noOverlays: BoardOverlays = { heatmap: false, trail: false, fruit: false }
+
+export const overlayLabels: Record<keyof BoardOverlays, { label: string, title: string }> = {
+  heatmap: { label: "Heatmap", title: "Tint the cells the head has visited, darker for more visits" },
+  trail: { label: "Trail", title: "Draw the head's path over the latest moves" },
+  fruit: { label: "Fruit markers", title: "Mark where each fruit spawned and was collected, numbered in order" }
+}
+
+/** How many of the latest moves the trail follows by default, and its bounds */
+export const TRAIL_LENGTH = 20
+export const MIN_TRAIL_LENGTH = 1
+export const MAX_TRAIL_LENGTH = 500
+
+/** A fruit that has been eaten; it is collected on the cell it spawned on */
+export type FruitMarker = {
+  cell: number,
+  /** 1 for the first fruit eaten */
+  order: number,
+  /** The step it appeared on the board */
+  spawned: number,
+  /** The step the head reached it */
+  collected: number
+}
+
+/**
+ * Counts how often the head has been on each cell, up to a step.
+ * @param states every state of the game
+ * @param step the last step to count
+ * @param gridSize a number N representing the size of an NxN grid, walls included
+ * @returns one count per walled index
+ */
+export function visitCounts(states: GameState[], step: number, gridSize: number): number[] {
+  const counts = new Array<number>(gridSize * gridSize).fill(0);
+  const last = Math.min(step, states.length - 1);
+  for (let s = 0; s <= last; s++) {
+    const head = states[s].snake[0];
+    // A death keeps the previous board, so the head did not move again
+    if (s > 0 && head === states[s - 1].snake[0]) continue;
+    if (head >= 0 && head < counts.length) counts[head]++;
+  }
+  return counts;
+}
+
+/**
+ * The cells the head moved through on the latest moves.
+ * @param states every state of the game
+ * @param step the current step
+ * @param length how many moves to go back
+ * @returns walled indices from the oldest to the current head
+ */
+export function headTrail(states: GameState[], step: number, length: number = TRAIL_LENGTH): number[] {
+  const last = Math.min(step, states.length - 1);
+  const trail: number[] = [];
+  for (let s = Math.max(0, last - length); s <= last; s++) {
+    const head = states[s].snake[0];
+    if (trail[trail.length - 1] !== head) trail.push(head);
+  }
+  return trail;
+}
+
+/**
+ * Summarises a heatmap, for comparing how much of the board agents cover.
+ * @param counts visits per walled index, from visitCounts
+ * @param gridSize a number N representing the size of an NxN grid, walls included
+ * @returns the number of cells visited at least once, the cells inside the walls, and the most visits to one cell
+ */
+export function visitSummary(counts: number[], gridSize: number): { visited: number, cells: number, max: number } {
+  return {
+    visited: counts.filter((c) => c > 0).length,
+    cells: (gridSize - 2) * (gridSize - 2),
+    max: Math.max(0, ...counts)
+  };
+}
+
+/**
+ * The fruits eaten up to a step, in order.
+ * @param states every state of the game
+ * @param step the current step
+ * @returns one marker per fruit eaten
+ */
+export function fruitMarkers(states: GameState[], step: number): FruitMarker[] {
+  const markers: FruitMarker[] = [];
+  const last = Math.min(step, states.length - 1);
+  let spawned = 0;
+  for (let s = 1; s <= last; s++) {
+    if (states[s].snake.length > states[s - 1].snake.length) {
+      markers.push({ cell: states[s].snake[0], order: markers.length + 1, spawned, collected: s });
+    }
+    if (states[s].fruit !== states[s - 1].fruit) spawned = s;
+  }
+  return markers;
+}
+
+/**
+ * Tints every visited cell, more opaque the more often the head was there.
+ * @param ctx the context to draw into, scaled to CSS pixels
+ * @param gridSize a number N representing the size of an NxN grid, walls included
+ * @param cell the size of one cell in CSS pixels
+ * @param counts visits per walled index, from visitCounts
+ * @param color the tint
+ * @param scale the count drawn fully opaque; the largest count by default
+ */
+export function drawHeatmap(ctx: CanvasRenderingContext2D, gridSize: number, cell: number, counts: number[],
+    color: string, scale: number = Math.max(...counts)): void {
+  if (scale <= 0) return;
+  ctx.fillStyle = color;
+  counts.forEach((count, i) => {
+    if (count === 0) return;
+    ctx.globalAlpha = 0.15 + 0.6 * Math.min(1, count / scale);
+    ctx.fillRect((i % gridSize) * cell, Math.floor(i / gridSize) * cell, cell, cell);
+  });
+  ctx.globalAlpha = 1;
+}
+
+/**
+ * Draws the head's path as a line through the cell centers, fading towards the oldest move.
+ * @param ctx the context to draw into, scaled to CSS pixels
+ * @param gridSize a number N representing the size of an NxN grid, walls included
+ * @param cell the size of one cell in CSS pixels
+ * @param trail walled indices from headTrail
+ * @param color the line color
+ */
+export function drawTrail(ctx: CanvasRenderingContext2D, gridSize: number, cell: number, trail: number[], color: string): void {
+  const center = (i: number) => [(i % gridSize + 0.5) * cell, (Math.floor(i / gridSize) + 0.5) * cell];
+  ctx.strokeStyle = color;
+  ctx.lineWidth = Math.max(2, cell / 6);
+  ctx.lineCap = "round";
+  for (let k = 1; k < trail.length; k++) {
+    const [x0, y0] = center(trail[k - 1]);
+    const [x1, y1] = center(trail[k]);
+    ctx.globalAlpha = 0.2 + 0.7 * (k / (trail.length - 1));
+    ctx.beginPath();
+    ctx.moveTo(x0, y0);
+    ctx.lineTo(x1, y1);
+    ctx.stroke();
+  }
+  ctx.globalAlpha = 1;
+  ctx.lineWidth = 1;
+}
+
+// Numbers are left out below this cell size, where they would not be readable
+const MIN_LABEL_CELL_PX = 16
+
+/**
+ * Rings the cells where fruit was collected, numbered in the order it was eaten.
+ * @param ctx the context to draw into, scaled to CSS pixels
+ * @param gridSize a number N representing the size of an NxN grid, walls included
+ * @param cell the size of one cell in CSS pixels
+ * @param markers the fruits from fruitMarkers
+ * @param color the ring and number color
+ */
+export function drawFruitMarkers(ctx: CanvasRenderingContext2D, gridSize: number, cell: number, markers: FruitMarker[],
+    color: string): void {
+  ctx.strokeStyle = color;
+  ctx.fillStyle = color;
+  ctx.lineWidth = Math.max(1.5, cell / 12);
+  ctx.font = `600 ${Math.floor(cell * 0.4)}px sans-serif`;
+  ctx.textAlign = "center";
+  ctx.textBaseline = "middle";
+  markers.forEach((m) => {
+    const x = (m.cell % gridSize + 0.5) * cell;
+    const y = (Math.floor(m.cell / gridSize) + 0.5) * cell;
+    ctx.beginPath();
+    ctx.arc(x, y, cell * 0.38, 0, Math.PI * 2);
+    ctx.stroke();
+    if (cell >= MIN_LABEL_CELL_PX) ctx.fillText(String(m.order), x, y);
+  });
+  ctx.lineWidth = 1;
+  ctx.textAlign = "start";
+}
@@ -0,0 +1,43 @@
+import { describe, expect, it } from "vitest"
+import {
+  boardThemeFor, defaultCustomPalette, hexToHsl, hslToHex, isHexColor, themeSnakeColor, withSnakeColor
+} from "./themes"
+import { boardColors, snakePalette } from "./board"
+
+describe("board themes", () => {
+  it("convert colors between hex and HSL", () => {
+    expect(hexToHsl("#ff0000")).toEqual({ h: 0, s: 100, l: 50 });
+    expect(hexToHsl("#808080")).toEqual({ h: 0, s: 0, l: 50 });
+    expect(hslToHex(120, 100, 25)).toBe("#008000");
+    const { h, s, l } = hexToHsl("#9333ea");
+    expect(hexToHsl(hslToHex(h, s, l))).toEqual({ h, s, l }); // whole-number HSL is close enough to round-trip
+  });
+
+  it("only accept six-digit hex colors", () => {
+    expect(isHexColor("#1f7ae0")).toBe(true);
+    expect(isHexColor("#fff")).toBe(false);
+    expect(isHexColor("red")).toBe(false);
+    expect(isHexColor(undefined)).toBe(false);
+  });
+
+  it("build the custom theme from the picked colors", () => {
+    const theme = boardThemeFor("custom", { ...defaultCustomPalette, wall: "#123456", snake: "#ff0000" });
+    expect(theme.wall).toBe("#123456");
+    expect(theme.snakeHue).toBe(0);
+    expect(theme.cursor).toBe(boardColors.cursor);
+    expect(boardThemeFor("classic", defaultCustomPalette)).toBe(boardColors);
+  });
+
+  it("recolor the snake but keep its gradient", () => {
+    const purple = withSnakeColor(boardColors, "#9333ea");
+    expect(purple.snakeHue).toBe(hexToHsl("#9333ea").h);
+    expect(purple.snakeLightness).toEqual(boardColors.snakeLightness);
+    expect(snakePalette(5, purple)[0]).not.toBe(snakePalette(5)[0]);
+    expect(withSnakeColor(boardColors, "")).toBe(boardColors);
+  });
+
+  it("pick a color input value in the middle of the snake gradient", () => {
+    expect(themeSnakeColor(withSnakeColor(boardColors, "#ff0000"))).toMatch(/^#[0-9a-f]{6}$/);
+    expect(hexToHsl(themeSnakeColor(boardColors)).h).toBeCloseTo(boardColors.snakeHue, -1);
+  });
+});
@@ -0,0 +1,168 @@
+/**
+ * File: themes.ts
+ * Description: Board color themes: the built-in light and dark palettes, a
+ * custom palette picked by the user, and per-slot snake colors layered on top.
+ */
+import { boardColors, type BoardTheme } from "./board"
+
+export type BoardThemeName = "classic" | "light" | "dark" | "custom"
+
+/** The colors a user picks for the custom theme, as "#rrggbb" */
+export type CustomPalette = {
+  wall: string,
+  cellLight: string,
+  cellDark: string,
+  fruit: string,
+  snake: string
+}
+
+export const boardThemeLabels: Record<BoardThemeName, string> = {
+  classic: "Classic",
+  light: "Light",
+  dark: "Dark",
+  custom: "Custom"
+}
+
+const lightBoardColors: BoardTheme = {
+  wall: "#94a3b8",                       // slate-400
+  wallBorder: "#64748b",                 // slate-500
+  cellBorder: "rgba(15, 23, 42, 0.15)",
+  cellLight: "#f8fafc",                  // slate-50
+  cellDark: "#e2e8f0",                   // slate-200
+  fruit: "#ef4444",                      // red-500
+  highlight: "#e11d48",                  // rose-600
+  cursor: "#f59e0b",                     // amber-500
+  trail: "#7c3aed",                      // violet-600
+  heatmap: "#f97316",                    // orange-500
+  gridLines: true,
+  snakeHue: 210,
+  snakeSaturation: 85,
+  snakeLightness: [30, 75]
+}
+
+const darkBoardColors: BoardTheme = {
+  wall: "#020617",                       // slate-950
+  wallBorder: "#1e293b",                 // slate-800
+  cellBorder: "rgba(255, 255, 255, 0.08)",
+  cellLight: "#1e293b",                  // slate-800
+  cellDark: "#0f172a",                   // slate-900
+  fruit: "#f87171",                      // red-400
+  highlight: "#fb7185",                  // rose-400
+  cursor: "#facc15",                     // yellow-400
+  trail: "#e879f9",                      // fuchsia-400
+  heatmap: "#fbbf24",                    // amber-400
+  gridLines: true,
+  snakeHue: 190,
+  snakeSaturation: 90,
+  snakeLightness: [45, 85]
+}
+
+const builtInThemes: Record<Exclude<BoardThemeName, "custom">, BoardTheme> = {
+  classic: boardColors,
+  light: lightBoardColors,
+  dark: darkBoardColors
+}
+
+export const defaultCustomPalette: CustomPalette = {
+  wall: "#000000",
+  cellLight: "#86efac",
+  cellDark: "#22c55e",
+  fruit: "#ef4444",
+  snake: "#1f7ae0"
+}
+
+const HEX_COLOR = /^#[0-9a-f]{6}$/i
+
+/**
+ * Whether a string is a "#rrggbb" color, the format color inputs use.
+ * @param value the string to check
+ * @returns true for a six-digit hex color
+ */
+export function isHexColor(value: unknown): value is string {
+  return typeof value === "string" && HEX_COLOR.test(value);
+}
+
+/**
+ * Converts a "#rrggbb" color to hue, saturation and lightness.
+ * @param hex the color
+ * @returns hue in degrees, saturation and lightness in percent
+ */
+export function hexToHsl(hex: string): { h: number, s: number, l: number } {
+  const [r, g, b] = [1, 3, 5].map((i) => parseInt(hex.slice(i, i + 2), 16) / 255);
+  const max = Math.max(r, g, b);
+  const min = Math.min(r, g, b);
+  const l = (max + min) / 2;
+  if (max === min) return { h: 0, s: 0, l: Math.round(l * 100) };
+  const d = max - min;
+  const s = l > 0.5 ? d / (2 - max - min) : d / (max + min);
+  let h = max === r ? (g - b) / d + (g < b ? 6 : 0) : max === g ? (b - r) / d + 2 : (r - g) / d + 4;
+  h *= 60;
+  return { h: Math.round(h), s: Math.round(s * 100), l: Math.round(l * 100) };
+}
+
+/**
+ * Converts hue, saturation and lightness to a "#rrggbb" color.
+ * @param h hue in degrees
+ * @param s saturation in percent
+ * @param l lightness in percent
+ * @returns the color
+ */
+export function hslToHex(h: number, s: number, l: number): string {
+  const a = (s / 100) * Math.min(l / 100, 1 - l / 100);
+  const channel = (n: number) => {
+    const k = (n + h / 30) % 12;
+    const value = l / 100 - a * Math.max(-1, Math.min(k - 3, 9 - k, 1));
+    return Math.round(value * 255).toString(16).padStart(2, "0");
+  };
+  return `#${channel(0)}${channel(8)}${channel(4)}`;
+}
+
+/**
+ * The board theme for a custom palette; outlines and overlays come from the classic theme.
+ * @param palette the picked colors
+ * @returns the theme
+ */
+export function customBoardTheme(palette: CustomPalette): BoardTheme {
+  const { h, s } = hexToHsl(palette.snake);
+  return {
+    ...boardColors,
+    wall: palette.wall,
+    cellLight: palette.cellLight,
+    cellDark: palette.cellDark,
+    fruit: palette.fruit,
+    snakeHue: h,
+    snakeSaturation: s
+  };
+}
+
+/**
+ * Looks up a board theme by name.
+ * @param name the theme
+ * @param custom the colors of the custom theme
+ * @returns the theme
+ */
+export function boardThemeFor(name: BoardThemeName, custom: CustomPalette): BoardTheme {
+  return name === "custom" ? customBoardTheme(custom) : builtInThemes[name];
+}
+
+/**
+ * Recolors a theme's snake, keeping its dark-to-light gradient.
+ * @param theme the board theme
+ * @param color a "#rrggbb" color, or "" to keep the theme's own snake
+ * @returns the theme with the snake's hue and saturation taken from the color
+ */
+export function withSnakeColor(theme: BoardTheme, color: string): BoardTheme {
+  if (!isHexColor(color)) return theme;
+  const { h, s } = hexToHsl(color);
+  return { ...theme, snakeHue: h, snakeSaturation: s };
+}
+
+/**
+ * A representative color of a theme's snake, for color inputs.
+ * @param theme the board theme
+ * @returns the middle of the snake gradient as "#rrggbb"
+ */
+export function themeSnakeColor(theme: BoardTheme): string {
+  const [min, max] = theme.snakeLightness;
+  return hslToHex(theme.snakeHue, theme.snakeSaturation, (min + max) / 2);
+}
@@ -0,0 +1,34 @@
+import { describe, expect, it } from "vitest"
+import { findEvents, issueEvents, nextEventStep, previousEventStep } from "./events"
+import { diedGame, wonGame } from "../test/fixtures"
+
+describe("findEvents", () => {
+  it("lists every fruit eaten and how the game ended", () => {
+    expect(findEvents(diedGame)).toEqual([
+      { step: 1, kind: "fruit" },
+      { step: 4, kind: "fruit" },
+      { step: 7, kind: "death" }
+    ]);
+    expect(findEvents(wonGame).map((e) => e.kind)).toEqual(["fruit", "fruit", "fruit", "win"]);
+  });
+
+  it("adds one issue per step with violations", () => {
+    const violation = { rule: "move" as const, message: "", cells: [] };
+    expect(issueEvents([{ ...violation, step: 2 }, { ...violation, step: 2 }, { ...violation, step: 5 }]))
+      .toEqual([{ step: 2, kind: "issue" }, { step: 5, kind: "issue" }]);
+  });
+});
+
+describe("event navigation", () => {
+  const events = findEvents(diedGame);
+
+  it("finds the nearest event on either side", () => {
+    expect(nextEventStep(events, 1)).toBe(4);
+    expect(previousEventStep(events, 4)).toBe(1);
+  });
+
+  it("has nothing past the first or last event", () => {
+    expect(nextEventStep(events, 7)).toBeUndefined();
+    expect(previousEventStep(events, 1)).toBeUndefined();
+  });
+});
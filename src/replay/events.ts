@@ -0,0 +1,60 @@
+/**
+ * File: events.ts
+ * Description: Finds the notable moments of a replay (fruit eaten, death, win,
+ * rule violations) for the timeline markers and event navigation.
+ */
+import type { GameState } from "../types"
+import type { ReplayViolation } from "./validate"
+
+export type ReplayEventKind = "fruit" | "death" | "win" | "issue"
+
+export type ReplayEvent = {
+  step: number,
+  kind: ReplayEventKind
+}
+
+/**
+ * Lists the events of a replay in step order.
+ * @param states every state of the game
+ * @returns one event per fruit eaten, plus the win or death at the end
+ */
+export function findEvents(states: GameState[]): ReplayEvent[] {
+  const events: ReplayEvent[] = [];
+  states.forEach((state, step) => {
+    if (step > 0 && state.snake.length > states[step - 1].snake.length) events.push({ step, kind: "fruit" });
+    if (state.won) events.push({ step, kind: "win" });
+    else if (state.died) events.push({ step, kind: "death" });
+  });
+  return events;
+}
+
+/**
+ * Turns replay violations into timeline events, one per offending step.
+ * @param violations the output of validateReplay
+ * @returns one "issue" event per step with at least one violation
+ */
+export function issueEvents(violations: ReplayViolation[]): ReplayEvent[] {
+  return [...new Set(violations.map((v) => v.step))].map((step) => ({ step, kind: "issue" }));
+}
+
+/**
+ * The first event step after the current step.
+ * @param events the events, in any order
+ * @param step the current step
+ * @returns the step to jump to, or undefined if there is none
+ */
+export function nextEventStep(events: ReplayEvent[], step: number): number | undefined {
+  return events.reduce<number | undefined>((best, e) =>
+    e.step > step && (best === undefined || e.step < best) ? e.step : best, undefined);
+}
+
+/**
+ * The last event step before the current step.
+ * @param events the events, in any order
+ * @param step the current step
+ * @returns the step to jump to, or undefined if there is none
+ */
+export function previousEventStep(events: ReplayEvent[], step: number): number | undefined {
+  return events.reduce<number | undefined>((best, e) =>
+    e.step < step && (best === undefined || e.step > best) ? e.step : best, undefined);
+}
@@ -0,0 +1,44 @@
+import { describe, expect, it } from "vitest"
+import { activeLoop, clampSpeed, formatSpeed, MAX_SPEED, MIN_SPEED, nextPlaybackStep, withLoopEnd, withLoopStart } from "./playback"
+
+describe("playback speed", () => {
+  it("stays within the supported range", () => {
+    expect(clampSpeed(64)).toBe(MAX_SPEED);
+    expect(clampSpeed(0.01)).toBe(MIN_SPEED);
+    expect(clampSpeed(2)).toBe(2);
+  });
+
+  it("is shown as a multiplier", () => {
+    expect(formatSpeed(0.125)).toBe("0.13x");
+    expect(formatSpeed(4)).toBe("4x");
+  });
+});
+
+describe("nextPlaybackStep", () => {
+  it("advances until the last step, then stops", () => {
+    expect(nextPlaybackStep(3, 7, null)).toBe(4);
+    expect(nextPlaybackStep(7, 7, null)).toBeNull();
+  });
+
+  it("repeats a loop range", () => {
+    const loop = { start: 2, end: 4 };
+    expect(nextPlaybackStep(3, 7, loop)).toBe(4);
+    expect(nextPlaybackStep(4, 7, loop)).toBe(2);
+    expect(nextPlaybackStep(0, 7, loop)).toBe(2); // jumps into the loop
+  });
+});
+
+describe("loop ranges", () => {
+  it("keeps the other end when it still fits", () => {
+    expect(withLoopStart({ start: 1, end: 6 }, 3, 7)).toEqual({ start: 3, end: 6 });
+    expect(withLoopStart({ start: 1, end: 2 }, 3, 7)).toEqual({ start: 3, end: 7 });
+    expect(withLoopEnd({ start: 2, end: 6 }, 4)).toEqual({ start: 2, end: 4 });
+    expect(withLoopEnd({ start: 5, end: 6 }, 4)).toEqual({ start: 0, end: 4 });
+  });
+
+  it("ignores loops that do not fit the loaded games", () => {
+    expect(activeLoop({ start: 2, end: 9 }, 7)).toBeNull();
+    expect(activeLoop({ start: 3, end: 3 }, 7)).toBeNull();
+    expect(activeLoop({ start: 2, end: 7 }, 7)).toEqual({ start: 2, end: 7 });
+  });
+});
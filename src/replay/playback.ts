@@ -0,0 +1,75 @@
+/**
+ * File: playback.ts
+ * Description: Playback rules for the replay timeline: speeds, looping a range
+ * of steps, and where the next tick of the player lands.
+ */
+
+/** An inclusive range of steps that playback repeats */
+export type LoopRange = {
+  start: number,
+  end: number
+}
+
+export const MIN_SPEED = 0.125
+export const MAX_SPEED = 16
+
+/**
+ * Keeps a playback speed within the supported range.
+ * @param speed the requested multiplier, where 1 is one move every 500 ms
+ * @returns the clamped speed
+ */
+export function clampSpeed(speed: number): number {
+  return Math.max(MIN_SPEED, Math.min(MAX_SPEED, speed));
+}
+
+/**
+ * Formats a speed multiplier for display, e.g. "0.25x" or "1.5x".
+ * @param speed the speed multiplier
+ * @returns the label
+ */
+export function formatSpeed(speed: number): string {
+  return `${Number(speed.toFixed(2))}x`;
+}
+
+/**
+ * The step playback moves to on its next tick.
+ * @param step the current step
+ * @param maxStep the last step of the longest loaded game
+ * @param loop the range to repeat, if any
+ * @returns the next step, or null when playback should stop
+ */
+export function nextPlaybackStep(step: number, maxStep: number, loop: LoopRange | null): number | null {
+  if (loop) return step < loop.start || step >= loop.end ? loop.start : step + 1;
+  return step >= maxStep ? null : step + 1;
+}
+
+/**
+ * Starts a loop at the given step, keeping the current end when it lies after it.
+ * @param loop the current loop, if any
+ * @param step the new first step
+ * @param maxStep the last step of the longest loaded game
+ * @returns the new loop
+ */
+export function withLoopStart(loop: LoopRange | null, step: number, maxStep: number): LoopRange {
+  return { start: step, end: loop && loop.end > step ? loop.end : maxStep };
+}
+
+/**
+ * Ends a loop at the given step, keeping the current start when it lies before it.
+ * @param loop the current loop, if any
+ * @param step the new last step
+ * @returns the new loop
+ */
+export function withLoopEnd(loop: LoopRange | null, step: number): LoopRange {
+  return { start: loop && loop.start < step ? loop.start : 0, end: step };
+}
+
+/**
+ * Whether a loop can be played against the loaded games.
+ * @param loop the loop, if any
+ * @param maxStep the last step of the longest loaded game
+ * @returns the loop when it spans at least one move within the games, otherwise null
+ */
+export function activeLoop(loop: LoopRange | null, maxStep: number): LoopRange | null {
+  return loop && loop.start < loop.end && loop.end <= maxStep ? loop : null;
+}
@@ -0,0 +1,57 @@
+import { describe, expect, it } from "vitest"
+import { validateReplay } from "./validate"
+import { diedGame, GRID_2, GRID_3, wonGame } from "../test/fixtures"
+
+const rules = (states: Parameters<typeof validateReplay>[0], gridSize = GRID_3) =>
+  validateReplay(states, gridSize).map((v) => `${v.step}:${v.rule}`);
+
+describe("validateReplay", () => {
+  it("accepts legal games, including the collision that ends one", () => {
+    expect(validateReplay(diedGame, GRID_3)).toEqual([]);
+    expect(validateReplay(wonGame, GRID_2)).toEqual([]);
+  });
+
+  it("accepts a final board that repeats the previous one", () => {
+    expect(validateReplay([...diedGame.slice(0, 3), { ...diedGame[2], died: true }], GRID_3)).toEqual([]);
+  });
+
+  it("flags a head that jumps", () => {
+    const states = diedGame.map((s) => ({ ...s }));
+    states[2] = { ...states[2], snake: [16, 13] };
+    expect(rules(states)).toContain("2:move");
+    expect(validateReplay(states, GRID_3).find((v) => v.rule === "move")?.cells).toEqual([13, 16]);
+  });
+
+  it("flags growth without eating and eating without growth", () => {
+    const grew = diedGame.map((s) => ({ ...s }));
+    grew[3] = { ...grew[3], snake: [7, 8, 13] };
+    expect(rules(grew)).toContain("3:growth");
+
+    const starved = diedGame.map((s) => ({ ...s }));
+    starved[1] = { ...starved[1], snake: [13] };
+    expect(rules(starved)).toContain("1:growth");
+  });
+
+  it("flags a snake in a wall or on itself before the end", () => {
+    expect(rules([{ snake: [1], fruit: 12, won: false, died: false }, { snake: [6], fruit: 12, won: false, died: true }]))
+      .toContain("0:overlap");
+    expect(rules([{ snake: [12, 12], fruit: 6, won: false, died: false }, diedGame[7]])).toContain("0:overlap");
+  });
+
+  it("flags a fruit on the snake or a fruit that moves", () => {
+    expect(rules([{ snake: [12], fruit: 12, won: false, died: false }, diedGame[7]])).toContain("0:fruit");
+    const moved = diedGame.map((s) => ({ ...s }));
+    moved[2] = { ...moved[2], fruit: 16 };
+    expect(rules(moved)).toContain("2:fruit");
+  });
+
+  it("flags impossible outcomes", () => {
+    expect(rules([diedGame[0], { ...diedGame[1], died: true }, diedGame[2]])).toContain("1:outcome");
+    expect(rules(diedGame.slice(0, 3))).toContain("2:outcome"); // never ends
+    expect(rules([wonGame[0], { ...wonGame[1], won: true }], GRID_2)).toContain("1:outcome");
+  });
+
+  it("flags cells outside the board", () => {
+    expect(rules([{ snake: [99], fruit: 6, won: false, died: true }])).toEqual(["0:bounds"]);
+  });
+});
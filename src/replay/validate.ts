@@ -0,0 +1,109 @@
+/**
+ * File: validate.ts
+ * Description: Checks a replay against the rules of snake so bugs in the
+ * backend agents show up in the UI instead of being rendered as if valid.
+ */
+import type { GameState } from "../types"
+
+export type ReplayRule =
+  | "bounds"      // a snake segment or the fruit lies outside the board
+  | "move"        // the head did not move exactly one orthogonal cell
+  | "body"        // the body did not follow the head
+  | "overlap"     // the snake overlaps itself or a wall cell
+  | "growth"      // the length changed without the fruit being eaten
+  | "fruit"       // the fruit spawned on the snake or moved without being eaten
+  | "outcome"     // won/died disagree with the board
+
+export type ReplayViolation = {
+  /** The step whose state breaks the rule */
+  step: number,
+  rule: ReplayRule,
+  message: string,
+  /** Cells to highlight on the board, walled indices */
+  cells: number[]
+}
+
+/**
+ * Checks every state of a replay and every transition between two states.
+ * A final `died` state may show the collision that killed the snake, or repeat
+ * the previous board when the snake was trapped.
+ * @param states every state of the game
+ * @param gridSize a number N representing the size of an NxN grid, walls included
+ * @returns the violations in step order; empty for a valid replay
+ */
+export function validateReplay(states: GameState[], gridSize: number): ReplayViolation[] {
+  const violations: ReplayViolation[] = [];
+  const flag = (step: number, rule: ReplayRule, message: string, cells: number[] = []) =>
+    violations.push({ step, rule, message, cells });
+  const interiorCells = (gridSize - 2) * (gridSize - 2);
+  const row = (i: number) => Math.floor(i / gridSize);
+  const col = (i: number) => i % gridSize;
+  const onBoard = (i: number) => Number.isInteger(i) && i >= 0 && i < gridSize * gridSize;
+  const isWall = (i: number) => row(i) === 0 || row(i) === gridSize - 1 || col(i) === 0 || col(i) === gridSize - 1;
+  const last = states.length - 1;
+
+  states.forEach((state, step) => {
+    const { snake, fruit } = state;
+    const final = step === last;
+    // The collision that ended the game is allowed on the final died state
+    const deathMove = final && state.died;
+
+    if (snake.length === 0) return flag(step, "bounds", "The snake has no segments");
+    const outside = snake.filter((i) => !onBoard(i));
+    if (outside.length > 0) return flag(step, "bounds", `Snake segment outside the board: ${outside.join(", ")}`);
+    if (fruit !== -1 && !onBoard(fruit)) flag(step, "bounds", `Fruit outside the board: ${fruit}`);
+
+    const walls = snake.filter(isWall);
+    if (walls.length > 0 && !(deathMove && walls.length === 1 && walls[0] === snake[0])) {
+      flag(step, "overlap", "The snake overlaps a wall", walls);
+    }
+    const repeated = snake.filter((i, k) => snake.indexOf(i) !== k);
+    if (repeated.length > 0 && !(deathMove && repeated.length === 1 && repeated[0] === snake[0])) {
+      flag(step, "overlap", "The snake overlaps itself", repeated);
+    }
+    if (fruit !== -1 && snake.includes(fruit)) flag(step, "fruit", "The fruit is on the snake", [fruit]);
+    if (fruit === -1 && snake.length < interiorCells && !final) flag(step, "fruit", "No fruit while the board has free cells");
+
+    if (state.won && state.died) flag(step, "outcome", "The game is marked as both won and died");
+    if (!final && (state.won || state.died)) flag(step, "outcome", `The game is marked as ${state.won ? "won" : "died"} before its last move`);
+    if (state.won && snake.length !== interiorCells) {
+      flag(step, "outcome", `Marked as won with ${snake.length} of ${interiorCells} cells filled`);
+    }
+    if (final && !state.won && !state.died) flag(step, "outcome", "The game ends without a win or a death");
+    if (final && !state.won && snake.length === interiorCells) flag(step, "outcome", "The snake fills the board but the game is not won");
+
+    if (step === 0) return;
+    const prev = states[step - 1];
+    if (prev.snake.length === 0 || !prev.snake.every(onBoard)) return; // already reported
+
+    // Trapped with nowhere to go: the final board repeats the previous one
+    if (deathMove && sameSnake(snake, prev.snake)) return;
+
+    const head = snake[0];
+    const prevHead = prev.snake[0];
+    if (Math.abs(row(head) - row(prevHead)) + Math.abs(col(head) - col(prevHead)) !== 1) {
+      flag(step, "move", `The head moved from ${prevHead} to ${head} instead of one cell`, [prevHead, head]);
+    }
+
+    const ate = head === prev.fruit;
+    const grown = snake.length - prev.snake.length;
+    if (ate && grown !== 1) flag(step, "growth", `Ate the fruit but the length changed by ${grown}`, [head]);
+    if (!ate && grown !== 0) flag(step, "growth", `The length changed by ${grown} without eating the fruit`, [head]);
+    if (!ate && fruit !== prev.fruit && !deathMove) flag(step, "fruit", "The fruit moved without being eaten", [prev.fruit, fruit]);
+
+    // Every segment takes the place of the one in front of it
+    const body = snake.slice(1);
+    const expected = prev.snake.slice(0, body.length);
+    if (grown >= 0 && !sameSnake(body, expected)) {
+      const moved = body.filter((i, k) => i !== expected[k]);
+      flag(step, "body", "The body did not follow the head", moved);
+    }
+  });
+
+  return violations;
+}
+
+// Whether two snakes occupy the same cells in the same order
+function sameSnake(a: number[], b: number[]): boolean {
+  return a.length === b.length && a.every((i, k) => i === b[k]);
+}
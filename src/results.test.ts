@@ -0,0 +1,62 @@
+import { describe, expect, it } from "vitest"
+import { createTableResult, randomSeed, sameReplay } from "./results"
+import { diedGame, GRID_2, GRID_3, wonGame } from "./test/fixtures"
+
+describe("createTableResult", () => {
+  it("summarises a lost game", () => {
+    const row = createTableResult("a*", "N/A", GRID_3, diedGame, "42");
+    expect(row).toMatchObject({
+      agent: "A*",
+      agentCode: "a*",
+      gridSize: "3x3",
+      replaySize: GRID_3,
+      train: "N/A",
+      seed: "42",
+      moveCount: 7,
+      fruitCount: 2,
+      finalLength: 3,
+      avgMove: "3.500",
+      outcome: "Lost"
+    });
+  });
+
+  it("summarises a won game", () => {
+    const row = createTableResult("deep-ql", "5k", GRID_2, wonGame, "7");
+    expect(row).toMatchObject({ agent: "Deep QL", gridSize: "2x2", moveCount: 3, fruitCount: 3, finalLength: 4, avgMove: "1.000", outcome: "Won" });
+  });
+
+  it("does not divide by zero when no fruit was eaten", () => {
+    const row = createTableResult("a*", "N/A", GRID_3, [{ snake: [12], fruit: 13, won: false, died: true }], "1");
+    expect(row.fruitCount).toBe(0);
+    expect(row.avgMove).toBe("0.000");
+  });
+
+  it("copies the replay and records when and where the run came from", () => {
+    const meta = { source: "mock://backend", durationMs: 12, response: {} };
+    const row = createTableResult("a*", "N/A", GRID_3, diedGame, "42", meta);
+    expect(row.replay).toEqual(diedGame);
+    expect(row.replay).not.toBe(diedGame);
+    expect(row.meta).toBe(meta);
+    expect(Number.isNaN(Date.parse(row.timestamp))).toBe(false);
+    expect(row.id).not.toBe(createTableResult("a*", "N/A", GRID_3, diedGame, "42").id);
+  });
+
+  it("keeps unknown agent codes as their name", () => {
+    expect(createTableResult("mystery", "N/A", GRID_3, diedGame, "1").agent).toBe("mystery");
+  });
+});
+
+describe("sameReplay", () => {
+  it("compares replays move for move", () => {
+    expect(sameReplay(diedGame, diedGame.map((s) => ({ ...s })))).toBe(true);
+    expect(sameReplay(diedGame, diedGame.slice(0, -1))).toBe(false);
+    expect(sameReplay(diedGame, [...diedGame.slice(0, -1), { ...diedGame[7], died: false }])).toBe(false);
+  });
+});
+
+describe("randomSeed", () => {
+  it("stays within the range of the seed inputs", () => {
+    for (let i = 0; i < 50; i++) expect(Number(randomSeed())).toBeGreaterThanOrEqual(0);
+    for (let i = 0; i < 50; i++) expect(Number(randomSeed())).toBeLessThanOrEqual(999);
+  });
+});
@@ -0,0 +1,66 @@
+/**
+ * File: results.ts
+ * Description: Builds simulation history rows from finished games.
+ */
+import type { GameState, RunMeta, TableResult } from "./types"
+import { agentName } from "./agents/catalog"
+
+/**
+ * Generates a unique row id. Falls back to a random string where
+ * `crypto.randomUUID` is unavailable (non-secure contexts such as LAN dev servers).
+ * @returns the new id
+ */
+export function createId(): string {
+  if (typeof crypto !== "undefined" && typeof crypto.randomUUID === "function") return crypto.randomUUID();
+  return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+}
+
+/**
+ * Picks a seed for a run whose seed input was left blank, so the run can
+ * still be reproduced later. Seeds are limited to 0-999 like the seed inputs.
+ * @returns the seed as a string
+ */
+export function randomSeed(): string {
+  return String(Math.floor(Math.random() * 1000));
+}
+
+/**
+ * Checks whether two replays are identical, move for move.
+ * @param a the first replay
+ * @param b the second replay
+ * @returns true when every state matches
+ */
+export function sameReplay(a: GameState[], b: GameState[]): boolean {
+  return a.length === b.length && JSON.stringify(a) === JSON.stringify(b);
+}
+
+/**
+ * Summarises a finished game as a row of the simulation history table.
+ * @param agent the agent code the game was played with
+ * @param eps the training amount of the agent
+ * @param gridSize a number N representing the size of the NxN grid, walls included
+ * @param data every state of the game
+ * @param seed the seed the game was simulated with
+ * @param meta details of the backend response, if any
+ * @returns the table row, including the full replay
+ */
+export function createTableResult(agent:string, eps:string, gridSize:number, data:GameState[], seed:string, meta?:RunMeta):TableResult {
+  const endIndex = data.length-1
+  return {
+    id: createId(),
+    agent: agentName(agent),
+    gridSize: (gridSize-2)+"x"+(gridSize-2),
+    train: eps,
+    moveCount: endIndex,
+    fruitCount: data[endIndex].snake.length-1,
+    finalLength: data[endIndex].snake.length,
+    avgMove: (endIndex/((data[endIndex].snake.length-1)+1e-9)).toFixed(3),
+    outcome: data[endIndex].won ? "Won" : "Lost",
+    replay: [...data],
+    agentCode : agent,
+    replaySize : gridSize,
+    seed,
+    timestamp: new Date().toISOString(),
+    meta
+  };
+}
@@ -0,0 +1,26 @@
+/**
+ * File: styles.ts
+ * Description: Tailwind class groups shared by the app's components.
+ */
+
+// Shared Tailwind style groups for consistency and readability
+export const styles = {
+  card: "rounded-2xl border border-black/10 bg-gray-400/70 shadow-lg",
+  cardPadding: "py-5 px-8",
+  label: "tracking-wide text-md",
+  select: "bg-blue-200 rounded-sm pl-1 focus-visible:outline-2 focus-visible:outline-offset-2 focus-visible:outline-sky-300",
+  input: "bg-blue-200 rounded-sm pl-1 focus-visible:outline-2 focus-visible:outline-offset-2 focus-visible:outline-sky-300",
+  btnPrimary: "rounded-lg bg-sky-500 px-4 py-2 text-sm font-semibold text-white shadow hover:bg-sky-400 transition disabled:cursor-not-allowed disabled:opacity-50 focus-visible:outline-2 focus-visible:outline-offset-2 focus-visible:outline-sky-300",
+  btnSecondary: "rounded-lg bg-gray-300 px-3 py-2 text-sm font-medium text-black hover:bg-gray-200 transition disabled:cursor-not-allowed disabled:opacity-50 focus-visible:outline-2 focus-visible:outline-offset-2 focus-visible:outline-sky-300",
+  btnPrimarySm: "rounded-lg bg-sky-500 px-3 py-2 text-xs font-semibold text-white hover:bg-sky-400 transition focus-visible:outline-2 focus-visible:outline-offset-2 focus-visible:outline-sky-300",
+  btnSecondarySm: "rounded-lg bg-gray-300 px-3 py-2 text-xs font-medium text-black hover:bg-gray-200 transition disabled:cursor-not-allowed disabled:opacity-50 focus-visible:outline-2 focus-visible:outline-offset-2 focus-visible:outline-sky-300",
+  btnSlate: "rounded-lg bg-slate-800 px-3 py-2 text-xs font-semibold text-slate-100 hover:bg-slate-700 transition disabled:cursor-not-allowed disabled:opacity-50 focus-visible:outline-2 focus-visible:outline-offset-2 focus-visible:outline-sky-300",
+  btnToggle: "rounded-lg bg-slate-800 aria-pressed:bg-sky-600 px-3 py-2 text-xs font-semibold text-slate-100 hover:bg-slate-700 aria-pressed:hover:bg-sky-500 transition disabled:cursor-not-allowed disabled:opacity-50 focus-visible:outline-2 focus-visible:outline-offset-2 focus-visible:outline-sky-300",
+  skipLink: "sr-only focus:not-sr-only focus:absolute focus:left-2 focus:top-2 focus:z-30 focus:rounded-lg focus:bg-white focus:px-3 focus:py-2 focus:text-sm focus:text-black",
+  sectionTitle: "text-lg font-semibold text-white",
+  tableCell: "px-4 py-3 text-sm border-r border-black",
+  tableCellLast: "px-4 py-3 text-sm",
+  errorBanner: "mt-2 flex items-center justify-between gap-4 rounded-lg border border-rose-500/40 bg-rose-100 px-4 py-2 text-sm text-rose-800 shadow-lg",
+  outcomeWon: "rounded-full px-3 py-1 ml-2 text-xs font-semibold bg-emerald-500/20 text-emerald-200 border border-emerald-500/40",
+  outcomeLost: "rounded-full px-3 py-1 ml-2 text-xs font-semibold bg-rose-500/20 text-rose-200 border border-rose-500/40",
+} as const
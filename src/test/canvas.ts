@@ -0,0 +1,70 @@
+/**
+ * File: canvas.ts
+ * Description: A stand-in for the canvas 2D context, which jsdom does not
+ * implement. It records what is filled where so tests can check the board
+ * without comparing pixels.
+ */
+
+export type FillCall = {
+  x: number,
+  y: number,
+  width: number,
+  height: number,
+  /** The fill style at the time of the call */
+  style: string
+}
+
+type RecordingContext = {
+  fills: FillCall[],
+  /** Fills since the last drawImage, i.e. the latest frame on top of the cached background */
+  frame: FillCall[]
+}
+
+const contexts = new WeakMap<HTMLCanvasElement, { ctx: CanvasRenderingContext2D, record: RecordingContext }>();
+
+// Creates a context that keeps every fillRect, translated like the real one, and ignores the rest
+function createRecordingContext(canvas: HTMLCanvasElement): CanvasRenderingContext2D {
+  const record: RecordingContext = { fills: [], frame: [] };
+  let offset = { x: 0, y: 0 };
+  const ctx = {
+    canvas,
+    fillStyle: "#000000",
+    strokeStyle: "#000000",
+    lineWidth: 1,
+    font: "10px sans-serif",
+    textBaseline: "alphabetic",
+    fillRect(x: number, y: number, width: number, height: number) {
+      const call = { x: x + offset.x, y: y + offset.y, width, height, style: String(ctx.fillStyle) };
+      record.fills.push(call);
+      record.frame.push(call);
+    },
+    drawImage() { record.frame = []; },
+    setTransform(_a: number, _b: number, _c: number, _d: number, e: number, f: number) { offset = { x: e, y: f }; },
+    getImageData(_x: number, _y: number, width: number, height: number) {
+      return { width, height, data: new Uint8ClampedArray(width * height * 4) };
+    },
+    measureText(text: string) { return { width: text.length * 7 }; },
+    scale() {}, strokeRect() {}, clearRect() {}, beginPath() {}, closePath() {}, moveTo() {}, lineTo() {},
+    arc() {}, rect() {}, fill() {}, stroke() {}, fillText() {}
+  };
+  contexts.set(canvas, { ctx: ctx as unknown as CanvasRenderingContext2D, record });
+  return contexts.get(canvas)!.ctx;
+}
+
+/** Replaces HTMLCanvasElement.getContext with the recording context, one per canvas */
+export function installCanvasMock(): void {
+  HTMLCanvasElement.prototype.getContext = function (this: HTMLCanvasElement) {
+    return contexts.get(this)?.ctx ?? createRecordingContext(this);
+  } as unknown as typeof HTMLCanvasElement.prototype.getContext;
+}
+
+/**
+ * What has been drawn into a canvas.
+ * @param canvas a canvas whose context was requested
+ * @returns every fill, and the fills of the latest frame
+ */
+export function canvasRecord(canvas: HTMLCanvasElement): RecordingContext {
+  const entry = contexts.get(canvas);
+  if (!entry) throw new Error("Nothing was drawn into this canvas");
+  return entry.record;
+}
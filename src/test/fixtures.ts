@@ -0,0 +1,36 @@
+/**
+ * File: fixtures.ts
+ * Description: Hand-written replays for tests, on the walled layout the backend
+ * uses (cell index = row * (N + 2) + column, walls included).
+ */
+import type { GameState } from "../types"
+
+/** Grid size of the 3x3 fixtures, walls included */
+export const GRID_3 = 5
+
+/**
+ * A 3x3 game: eats at steps 1 and 4, then runs down the left edge into the
+ * bottom wall and dies at step 7. Like the backend, the fatal step repeats the
+ * last board with `died: true`.
+ */
+export const diedGame: GameState[] = [
+  { snake: [12], fruit: 13, won: false, died: false },
+  { snake: [13, 12], fruit: 6, won: false, died: false },
+  { snake: [8, 13], fruit: 6, won: false, died: false },
+  { snake: [7, 8], fruit: 6, won: false, died: false },
+  { snake: [6, 7, 8], fruit: 18, won: false, died: false },
+  { snake: [11, 6, 7], fruit: 18, won: false, died: false },
+  { snake: [16, 11, 6], fruit: 18, won: false, died: false },
+  { snake: [16, 11, 6], fruit: 18, won: false, died: true }
+]
+
+/** Grid size of the 2x2 fixture, walls included */
+export const GRID_2 = 4
+
+/** A 2x2 game that fills the board in three moves */
+export const wonGame: GameState[] = [
+  { snake: [5], fruit: 6, won: false, died: false },
+  { snake: [6, 5], fruit: 10, won: false, died: false },
+  { snake: [10, 6, 5], fruit: 9, won: false, died: false },
+  { snake: [9, 10, 6, 5], fruit: -1, won: true, died: false }
+]
@@ -0,0 +1,55 @@
+/**
+ * File: mockFetch.ts
+ * Description: A stubbed global `fetch` answering the backend routes, so app
+ * flows can be tested without a server.
+ */
+import { vi, type Mock } from "vitest"
+import type { GameState } from "../types"
+
+export type SimulateBody = { agent: string, eps: string, grid_size: number, seed: string }
+
+export type MockRoutes = {
+  /** Answers `/ping`; up by default */
+  ping?: () => Response | Promise<Response>,
+  /** Answers `/simulate` with the decoded request body */
+  simulate?: (body: SimulateBody) => Response | Promise<Response>,
+  /** Answers `/agents`; a 404 by default, so the bundled catalog stays in use */
+  agents?: () => Response | Promise<Response>
+}
+
+/**
+ * A JSON response.
+ * @param body the value to encode
+ * @param status the HTTP status
+ * @returns the response
+ */
+export function jsonResponse(body: unknown, status = 200): Response {
+  return new Response(JSON.stringify(body), { status, headers: { "Content-Type": "application/json" } });
+}
+
+/**
+ * A `/simulate` response holding a replay.
+ * @param states the game states
+ * @returns the response
+ */
+export function simulateResponse(states: GameState[]): Response {
+  return jsonResponse({ states });
+}
+
+/**
+ * Replaces the global fetch with one that routes backend requests by path.
+ * Removed again after each test by the test setup.
+ * @param routes handlers for the routes under test
+ * @returns the mock, to inspect the requests made
+ */
+export function mockBackend(routes: MockRoutes = {}): Mock<typeof fetch> {
+  const mock = vi.fn<typeof fetch>(async (input, init) => {
+    const path = new URL(String(input)).pathname;
+    if (path === "/ping") return routes.ping ? routes.ping() : jsonResponse({ ping: "pong" });
+    if (path === "/agents") return routes.agents ? routes.agents() : new Response("Not Found", { status: 404 });
+    if (path === "/simulate" && routes.simulate) return routes.simulate(JSON.parse(String(init?.body)));
+    return new Response("Not Found", { status: 404 });
+  });
+  vi.stubGlobal("fetch", mock);
+  return mock;
+}
@@ -0,0 +1,26 @@
+/**
+ * File: setup.ts
+ * Description: Test environment setup: DOM matchers, and stand-ins for the
+ * browser APIs jsdom lacks.
+ */
+import "@testing-library/jest-dom/vitest"
+import { afterEach, vi } from "vitest"
+import { cleanup } from "@testing-library/react"
+import { installCanvasMock } from "./canvas"
+
+installCanvasMock();
+
+// The grid sizes itself with a ResizeObserver; without one it keeps its default size
+globalThis.ResizeObserver ??= class {
+  observe() {}
+  unobserve() {}
+  disconnect() {}
+};
+
+afterEach(() => {
+  cleanup();
+  vi.unstubAllGlobals();
+  vi.restoreAllMocks();
+  localStorage.clear();
+  window.history.replaceState(null, "", "/");
+});
@@ -0,0 +1,56 @@
+/**
+ * File: types.ts
+ * Description: Shared data types for simulated games and their results.
+ */
+
+/** One move of a simulated game. Cell indices include the wall border. */
+export type GameState = {snake:number[], fruit:number, won:boolean, died:boolean}
+
+/** Details about where and how a run was produced */
+export type RunMeta = {
+  /** Backend base URL the run came from */
+  source: string,
+  /** Round trip time of the request in milliseconds */
+  durationMs: number,
+  /** Any fields of the backend response other than `states` */
+  response: Record<string, unknown>
+}
+
+/** One row of the simulation history table. */
+export type TableResult = {
+  /** Stable identifier, unique across sessions and exported files */
+  id: string,
+  agent: string,
+  gridSize: string,
+  train: string,
+  moveCount: number,
+  fruitCount: number,
+  finalLength: number,
+  avgMove: string,
+  outcome: string,
+  replay: GameState[],
+  agentCode: string,
+  replaySize: number,
+  /** Seed the run was simulated with; "" for runs recorded before seeds were kept */
+  seed: string,
+  /** ISO time the run finished; "" for runs recorded before timestamps were kept */
+  timestamp: string,
+  meta?: RunMeta
+}
+
+/** One entry of the agent catalog. */
+export type AgentInfo = {
+  /** Code sent to the backend, e.g. "deep-ql" */
+  code: string,
+  /** Display name, e.g. "Deep QL" */
+  name: string,
+  /** Training amounts to choose from, e.g. ["1k", "3k"]; empty when the agent is not trained */
+  trainingOptions: string[],
+  /** Interior board sizes N the agent can play */
+  gridSizes: number[],
+  available: boolean,
+  /** Why the agent is unavailable, shown next to it */
+  unavailableReason?: string,
+  /** Plays in the browser instead of on the backend */
+  local?: boolean
+}
@@ -0,0 +1,36 @@
+import { describe, expect, it } from "vitest"
+import { buildPermalink, findLinkedRuns, parsePermalink } from "./permalink"
+import { createTableResult } from "../results"
+import { diedGame, GRID_3 } from "../test/fixtures"
+
+const sizes = [3, 5, 7];
+
+describe("permalinks", () => {
+  it("round-trip the settings of every slot and the step", () => {
+    const link = {
+      gridSize: 3,
+      grids: [{ agent: "deep-ql", eps: "5k", seed: "42" }, { agent: "a*", eps: "N/A", seed: "" }, { agent: "local:greedy", eps: "N/A", seed: "7" }],
+      step: 12
+    };
+    const search = buildPermalink(link);
+    expect(search).toBe("?size=3&a1=deep-ql&e1=5k&s1=42&a2=a*&e2=N%2FA&a3=local%3Agreedy&e3=N%2FA&s3=7&step=12");
+    expect(parsePermalink(search, sizes)).toEqual(link);
+  });
+
+  it("rejects unknown sizes and links without an agent", () => {
+    expect(parsePermalink("?size=4&a1=a*&e1=N/A", sizes)).toBeNull();
+    expect(parsePermalink("?size=3", sizes)).toBeNull();
+  });
+
+  it("ignores a malformed step", () => {
+    expect(parsePermalink("?size=3&a1=a*&e1=N/A&step=-1", sizes)?.step).toBeUndefined();
+  });
+
+  it("finds linked runs in the history only when every slot has a seeded match", () => {
+    const run = createTableResult("a*", "N/A", GRID_3, diedGame, "42");
+    const link = { gridSize: 3, grids: [{ agent: "a*", eps: "N/A", seed: "42" }], step: 3 };
+    expect(findLinkedRuns(link, [run])).toEqual([run]);
+    expect(findLinkedRuns({ ...link, grids: [...link.grids, { agent: "a*", eps: "N/A", seed: "" }] }, [run])).toBeNull();
+    expect(findLinkedRuns({ ...link, gridSize: 5 }, [run])).toBeNull();
+  });
+});
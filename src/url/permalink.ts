@@ -0,0 +1,81 @@
+/**
+ * File: permalink.ts
+ * Description: Encodes the grid settings, agent configurations and replay step
+ * into URL query parameters so a run can be shared as a link, e.g.
+ * `?size=7&a1=deep-ql&e1=5k&s1=42&a2=a*&e2=N/A&s2=42&step=37`, with one
+ * numbered agent/training/seed triple per comparison slot.
+ */
+import type { TableResult } from "../types"
+import { MAX_SLOTS } from "../comparison/slots"
+
+export type GridConfig = {
+  agent: string,
+  eps: string,
+  seed: string
+}
+
+export type Permalink = {
+  /** Interior board size N of the NxN grid (walls not included) */
+  gridSize: number,
+  /** One entry per comparison slot */
+  grids: GridConfig[],
+  /** Replay step to jump to; present only when a game was loaded */
+  step?: number
+}
+
+const isSeed = (value: string) => value === "" || (/^(0|[1-9]\d{0,2})$/).test(value);
+
+/**
+ * Reads a permalink from a query string.
+ * @param search the query string, e.g. `window.location.search`
+ * @param allowedSizes the interior grid sizes the app offers
+ * @returns the decoded settings, or null if the URL holds none or they are invalid
+ */
+export function parsePermalink(search: string, allowedSizes: number[]): Permalink | null {
+  const params = new URLSearchParams(search);
+  const gridSize = Number(params.get("size"));
+  if (!allowedSizes.includes(gridSize)) return null;
+
+  const grids: GridConfig[] = [];
+  for (let n = 1; n <= MAX_SLOTS; n++) {
+    const agent = params.get(`a${n}`);
+    const eps = params.get(`e${n}`);
+    const seed = params.get(`s${n}`) ?? "";
+    if (!agent || !eps || !isSeed(seed)) break;
+    grids.push({ agent, eps, seed });
+  }
+  if (grids.length === 0) return null;
+
+  const rawStep = params.get("step");
+  const step = rawStep !== null && (/^\d+$/).test(rawStep) ? Number(rawStep) : undefined;
+  return { gridSize, grids, step };
+}
+
+/**
+ * Writes a permalink as a query string.
+ * @param link the settings to encode
+ * @returns the query string including the leading "?"
+ */
+export function buildPermalink(link: Permalink): string {
+  const params = new URLSearchParams({ size: String(link.gridSize) });
+  link.grids.forEach((grid, i) => {
+    params.set(`a${i + 1}`, grid.agent);
+    params.set(`e${i + 1}`, grid.eps);
+    if (grid.seed !== "") params.set(`s${i + 1}`, grid.seed);
+  });
+  if (link.step !== undefined) params.set("step", String(link.step));
+  return `?${params.toString()}`;
+}
+
+/**
+ * Looks up the runs a permalink points at in the local history, so a link to a
+ * run that is already stored can be replayed without asking the backend.
+ * @param link the decoded permalink
+ * @param history the simulation history
+ * @returns one stored run per grid, or null unless every grid has a seeded match
+ */
+export function findLinkedRuns(link: Permalink, history: TableResult[]): TableResult[] | null {
+  const runs = link.grids.map((grid) => grid.seed === "" ? undefined : history.find((r) =>
+    r.agentCode === grid.agent && r.train === grid.eps && r.seed === grid.seed && r.replaySize === link.gridSize + 2));
+  return runs.every((r) => r !== undefined) ? runs as TableResult[] : null;
+}
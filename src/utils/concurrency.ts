@@ -0,0 +1,24 @@
+/**
+ * File: concurrency.ts
+ * Description: Runs async jobs with a cap on how many are in flight at once.
+ */
+
+/**
+ * Calls `worker` for every item with at most `limit` calls pending at a time.
+ * No new items are started once the signal aborts.
+ * @param items the inputs to process, started in order
+ * @param limit the maximum number of concurrent workers
+ * @param worker the async job to run for each item
+ * @param signal an optional signal that stops further items from starting
+ */
+export async function runWithConcurrency<T>(items: T[], limit: number,
+    worker: (item: T, index: number) => Promise<void>, signal?: AbortSignal): Promise<void> {
+  let next = 0;
+  const lane = async () => {
+    while (next < items.length && !signal?.aborted) {
+      const index = next++;
+      await worker(items[index], index);
+    }
+  };
+  await Promise.all(Array.from({ length: Math.max(1, Math.min(limit, items.length)) }, lane));
+}
@@ -0,0 +1,19 @@
+/**
+ * File: download.ts
+ * Description: Browser helpers for saving generated files.
+ */
+
+/**
+ * Prompts the browser to save a blob under the given file name.
+ * @param blob the file contents
+ * @param filename the suggested file name
+ */
+export function downloadBlob(blob: Blob, filename: string): void {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = filename;
+  link.click();
+  // Give the browser a moment to start the download before releasing the URL
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+}
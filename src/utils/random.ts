@@ -0,0 +1,46 @@
+/**
+ * File: random.ts
+ * Description: Seeded randomness shared by the mock backend and the local
+ * snake engine, so identical seeds produce identical games.
+ */
+
+/**
+ * A small seeded PRNG (mulberry32) so identical requests produce identical games.
+ * @param seed a 32-bit integer seed
+ * @returns a function returning floats in [0, 1)
+ */
+export function mulberry32(seed: number): () => number {
+  let a = seed >>> 0;
+  return () => {
+    a = (a + 0x6D2B79F5) >>> 0;
+    let t = a;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * FNV-1a hash for turning parameters into a PRNG seed.
+ * @param value the text to hash
+ * @returns a 32-bit unsigned integer
+ */
+export function hashString(value: string): number {
+  let h = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    h ^= value.charCodeAt(i);
+    h = Math.imul(h, 0x01000193);
+  }
+  return h >>> 0;
+}
+
+/**
+ * The fruit PRNG for a board and seed. The mock backend and the local engine
+ * both draw the starting cell and every fruit from it.
+ * @param gridSize the interior board size N (without walls)
+ * @param seed the seed of the game
+ * @returns a function returning floats in [0, 1)
+ */
+export function fruitRandom(gridSize: number, seed: number): () => number {
+  return mulberry32(hashString(`fruit|${gridSize}|${seed}`));
+}
@@ -0,0 +1,14 @@
+/// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  /** Base URL of the simulation backend, without a trailing slash */
+  readonly VITE_API_BASE_URL?: string
+  /** Request timeout in milliseconds */
+  readonly VITE_API_TIMEOUT_MS?: string
+  /** Set to "true" to serve requests from the in-browser mock backend */
+  readonly VITE_USE_MOCK_API?: string
+}
+
+interface ImportMeta {
+  readonly env: ImportMetaEnv
+}